@@ -0,0 +1,140 @@
+// scripts/loadtest.ts
+// Нагрузочный тест без браузера: N игроков против настоящего бэкенда или loopback-сервера
+//
+//   npm run loadtest -- --players 50 --duration 120
+//   npm run loadtest -- --transport loopback --players 8 --policy greedy
+//   npm run loadtest -- --lobby <id> --api https://api.example --ws wss://ws.example
+//
+// На Node 20 http-транспорту нужен NODE_OPTIONS=--experimental-websocket
+
+import { parseArgs } from 'node:util';
+
+import { LOAD_TEST } from '@/features/game/config';
+import { LoadTestRunner, type LoadTestReport } from '@/features/game/lib/loadtest/LoadTestRunner';
+import { isSteeringPolicy, STEERING_POLICIES } from '@/features/game/lib/loadtest/steering';
+import { createHttpTransport } from '@/features/game/lib/transport/httpTransport';
+import { createLoopbackTransport } from '@/features/game/lib/transport/loopback/LoopbackServer';
+import type { GameModeKey } from '@/features/game/types';
+
+const USAGE = `Usage: npm run loadtest -- [options]
+
+  -n, --players <n>      simulated players (default ${LOAD_TEST.players})
+  -d, --duration <sec>   run time, 0 = until Ctrl+C (default ${LOAD_TEST.durationSec})
+      --mode <mode>      free_for_all | team_battle (default free_for_all)
+      --lobby <id>       join this lobby instead of /lobbies/find-best
+      --policy <name>    ${STEERING_POLICIES.join(' | ')} (default random)
+      --transport <kind> http | loopback (default http)
+      --api <url>        REST base url (default NEXT_PUBLIC_API_URL)
+      --ws <url>         socket base url (default NEXT_PUBLIC_WS_URL)
+      --ramp <ms>        delay between player connects (default ${LOAD_TEST.rampUpMs})
+      --interval <sec>   progress report period (default ${LOAD_TEST.reportIntervalMs / 1000})
+      --prefix <name>    nickname prefix (default ${LOAD_TEST.nicknamePrefix})
+      --json             print only the final report, as JSON
+  -h, --help`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+const readNumber = (value: string | undefined, fallback: number, name: string) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fail(`--${name} must be a non-negative number`);
+};
+
+const { values } = parseArgs({
+  options: {
+    players: { type: 'string', short: 'n' },
+    duration: { type: 'string', short: 'd' },
+    mode: { type: 'string', default: 'free_for_all' },
+    lobby: { type: 'string' },
+    policy: { type: 'string', default: 'random' },
+    transport: { type: 'string', default: 'http' },
+    api: { type: 'string' },
+    ws: { type: 'string' },
+    ramp: { type: 'string' },
+    interval: { type: 'string' },
+    prefix: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const players = Math.floor(readNumber(values.players, LOAD_TEST.players, 'players'));
+const durationSec = readNumber(values.duration, LOAD_TEST.durationSec, 'duration');
+const intervalMs = readNumber(values.interval, LOAD_TEST.reportIntervalMs / 1000, 'interval') * 1000;
+const mode = values.mode as GameModeKey;
+if (mode !== 'free_for_all' && mode !== 'team_battle') fail(`Unknown mode "${values.mode}"`);
+const policy = values.policy;
+if (!isSteeringPolicy(policy)) fail(`Unknown policy "${policy}"`);
+if (values.transport !== 'http' && values.transport !== 'loopback') fail(`Unknown transport "${values.transport}"`);
+if (values.transport === 'http' && typeof WebSocket === 'undefined') {
+  fail('This Node has no global WebSocket: use Node 22+ or NODE_OPTIONS=--experimental-websocket');
+}
+
+const loopback = values.transport === 'loopback' ? createLoopbackTransport() : null;
+const transport = loopback ?? createHttpTransport(values.api, values.ws);
+
+const runner = new LoadTestRunner({
+  transport,
+  players,
+  mode,
+  lobbyId: values.lobby ?? null,
+  policy,
+  nicknamePrefix: values.prefix,
+  rampUpMs: values.ramp === undefined ? undefined : readNumber(values.ramp, LOAD_TEST.rampUpMs, 'ramp'),
+});
+
+const fixed = (value: number | null, digits = 2) => (value === null ? '-' : value.toFixed(digits));
+
+const printReport = (report: LoadTestReport) => {
+  console.log(`\n${report.elapsedSec.toFixed(0)}s  ${report.connected}/${report.players.length} connected`);
+  console.table(
+    report.players.map((player) => ({
+      player: player.nickname,
+      status: player.status,
+      lobby: player.lobbyId ?? '-',
+      'msg/s': fixed(player.messagesPerSec, 1),
+      in: player.messagesIn,
+      out: player.messagesOut,
+      KB: (player.bytesIn / 1024).toFixed(0),
+      'decode avg': fixed(player.decodeAvgMs, 3),
+      'decode p95': fixed(player.decodeP95Ms, 3),
+      rejected: player.rejected,
+      drops: player.drops,
+      reconnects: player.reconnects,
+      'tick gaps': player.tickGaps,
+      missed: player.missedTicks,
+      rtt: fixed(player.rttMs, 0),
+      error: player.error ?? '',
+    })),
+  );
+};
+
+let progressTimer: ReturnType<typeof setInterval> | null = null;
+let finishing = false;
+
+const finish = async () => {
+  if (finishing) return;
+  finishing = true;
+  if (progressTimer) clearInterval(progressTimer);
+  const report = runner.report();
+  await runner.stop();
+  loopback?.dispose();
+  if (values.json) console.log(JSON.stringify(report, null, 2));
+  else printReport(report);
+  // Таймеры сессий и симуляции сами не остановятся
+  process.exit(0);
+};
+
+process.on('SIGINT', () => void finish());
+
+if (!values.json && intervalMs > 0) progressTimer = setInterval(() => printReport(runner.report()), intervalMs);
+if (durationSec > 0) setTimeout(() => void finish(), durationSec * 1000);
+void runner.start();
@@ -4,7 +4,10 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 
+import { BotLineupPicker } from "@/features/game/components/BotLineupPicker";
 import { LobbyListButton } from "@/features/game/components/LobbyListButton";
+import { BOTS } from "@/features/game/config";
+import { parseBotLineup, serializeBotLineup, type BotDifficulty } from "@/features/game/lib/bots";
 
 const MODES = [
   {
@@ -24,13 +27,21 @@ const MODES = [
 export default function MainLandingPage() {
   const [nickname, setNickname] = useState("");
   const [mode, setMode] = useState<(typeof MODES)[number]["key"]>("free_for_all");
+  const [botLineup, setBotLineup] = useState<BotDifficulty[]>(["normal"]);
 
-  // Инициализируем ник из localStorage
+  // Инициализируем ник и состав ботов из localStorage
   useEffect(() => {
     const saved = localStorage.getItem("slize_nickname");
     if (saved) setNickname(saved);
+    const savedBots = localStorage.getItem(BOTS.lineupStorageKey);
+    if (savedBots !== null) setBotLineup(parseBotLineup(savedBots));
   }, []);
 
+  const updateBotLineup = (lineup: BotDifficulty[]) => {
+    setBotLineup(lineup);
+    try { localStorage.setItem(BOTS.lineupStorageKey, serializeBotLineup(lineup)); } catch { /* noop */ }
+  };
+
   // Дебаунс/сейв ника
   useEffect(() => {
     const t = setTimeout(() => {
@@ -102,14 +113,24 @@ export default function MainLandingPage() {
           })}
         </div>
 
+        <BotLineupPicker lineup={botLineup} onChange={updateBotLineup} />
+
         {/* Старт — ведём в /main/play?mode=... */}
         {canPlay ? (
-          <Link
-            href={`/main/play?mode=${mode}`}
-            className="inline-flex items-center justify-center px-6 py-3 rounded-xl font-bold text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)] shadow-md hover:shadow-lg transition"
-          >
-            Play
-          </Link>
+          <div className="flex flex-col items-center gap-3">
+            <Link
+              href={`/main/play?mode=${mode}`}
+              className="inline-flex items-center justify-center px-6 py-3 rounded-xl font-bold text-white bg-[var(--accent)] hover:bg-[var(--accent-hover)] shadow-md hover:shadow-lg transition"
+            >
+              Play
+            </Link>
+            <Link
+              href={`/main/play?mode=offline&bots=${serializeBotLineup(botLineup)}`}
+              className="text-sm font-semibold text-[var(--accent)] hover:text-[var(--accent-hover)] transition"
+            >
+              Practice offline
+            </Link>
+          </div>
         ) : (
           <button
             disabled
@@ -119,6 +140,13 @@ export default function MainLandingPage() {
             Play
           </button>
         )}
+
+        <Link
+          href="/main/replay"
+          className="text-sm font-semibold text-gray-500 hover:text-[var(--accent)] transition"
+        >
+          Watch a replay
+        </Link>
       </section>
     </main>
   );
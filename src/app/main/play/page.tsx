@@ -1,17 +1,36 @@
 // src/app/main/play/page.tsx
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import { Activity, Download } from "lucide-react";
 
 import { GameCanvas } from "@/features/game/components/GameCanvas";
+import { KillFeed } from "@/features/game/components/KillFeed";
+import { Leaderboard } from "@/features/game/components/Leaderboard";
+import { NetworkStatsOverlay } from "@/features/game/components/NetworkStatsOverlay";
 import { PowerUpBar } from "@/features/game/components/PowerUpBar";
+import { ProtocolInspector } from "@/features/game/components/ProtocolInspector";
+import { SpectatorFollowPanel } from "@/features/game/components/SpectatorFollowPanel";
 import { TeamPanel } from "@/features/game/components/TeamPanel";
+import { TimeTravelPanel } from "@/features/game/components/TimeTravelPanel";
 import { useGameClient } from "@/features/game/hooks/useGameClient";
-import { GAME_TIMING } from "@/features/game/config";
+import { useStoreSelector } from "@/features/game/hooks/useStoreSelector";
+import { parseBotLineup, type BotDifficulty } from "@/features/game/lib/bots";
+import { getGameTransport, resolveTransportKind, type TransportKind } from "@/features/game/lib/transport";
+import { isLoopbackTransport } from "@/features/game/lib/transport/loopback/LoopbackServer";
 import type { GameModeKey } from "@/features/game/types";
+import type { SnapshotBufferStats } from "@/features/game/lib/client/snapshotBuffer";
+import { ProtocolLog } from "@/features/game/lib/client/protocolLog";
+import type { GameStateSnapshot } from "@/features/game/lib/sdk/GameStateModel";
+import { HistoryScrubber, type HistoryScrubberState } from "@/features/game/lib/replay/HistoryScrubber";
+
+// Отладка по истории тиков — только в dev-сборке
+const TIME_TRAVEL_ENABLED = process.env.NODE_ENV !== "production";
 
 const SUPPORTED_MODES: GameModeKey[] = ["free_for_all", "team_battle"];
+// Не игровой режим, а способ игры: матч симулируется прямо во вкладке
+const OFFLINE_MODE = "offline";
 
 function resolveMode(value: string | null): GameModeKey {
   if (value && (SUPPORTED_MODES as readonly string[]).includes(value)) {
@@ -20,14 +39,24 @@ function resolveMode(value: string | null): GameModeKey {
   return "free_for_all";
 }
 
+const selectLeaderId = ({ currentState }: GameStateSnapshot) => {
+  const ranked = Object.entries(currentState?.players ?? {}).sort(([, a], [, b]) => b.score - a.score);
+  return ranked[0]?.[0] ?? null;
+};
+
+const selectPaused = ({ paused }: HistoryScrubberState) => paused;
+
 function ConnectionOverlay({
   visible,
   statusText,
   error,
+  onPlayHere,
 }: {
   visible: boolean;
   statusText: string;
   error: string | null;
+  // Показывается, пока игрой владеет другая вкладка
+  onPlayHere?: () => void;
 }) {
   if (!visible) return null;
   return (
@@ -42,14 +71,25 @@ function ConnectionOverlay({
     >
       <div className="pointer-events-auto rounded-xl border border-gray-200 bg-white shadow-lg px-5 py-3 flex items-center gap-3">
         {/* Простой «спиннер» CSS без зависимостей */}
-        <span
-          aria-hidden
-          className="inline-block w-4 h-4 rounded-full border-2 border-gray-300 border-t-[var(--accent)] animate-spin"
-        />
+        {!onPlayHere && (
+          <span
+            aria-hidden
+            className="inline-block w-4 h-4 rounded-full border-2 border-gray-300 border-t-[var(--accent)] animate-spin"
+          />
+        )}
         <div className="text-sm text-gray-700">
           <div className="font-semibold">{statusText}</div>
           {error ? <div className="text-xs text-red-500 mt-0.5">{error}</div> : null}
         </div>
+        {onPlayHere && (
+          <button
+            type="button"
+            onClick={onPlayHere}
+            className="ml-2 rounded-lg bg-[var(--accent)] px-3 py-1.5 text-sm font-semibold text-white shadow hover:bg-[var(--accent-hover)]"
+          >
+            Play here
+          </button>
+        )}
       </div>
     </div>
   );
@@ -97,12 +137,82 @@ function BlockingErrorModal({
   );
 }
 
+function QuitDialog({
+  visible,
+  onCancel,
+  onQuit,
+  onSaveAndQuit,
+}: {
+  visible: boolean;
+  onCancel: () => void;
+  onQuit: () => void;
+  onSaveAndQuit: () => void;
+}) {
+  if (!visible) return null;
+  return (
+    <div className="fixed inset-0 z-30 bg-[rgba(0,0,0,0.28)] flex items-center justify-center p-4">
+      <div className="max-w-md w-full rounded-2xl bg-white shadow-xl border border-gray-200">
+        <div className="px-5 py-4 border-b border-gray-100">
+          <h3 className="text-lg font-bold">Leave the match?</h3>
+        </div>
+        <div className="px-5 py-4 text-sm text-gray-700">
+          This session was recorded. Save a replay before leaving to rewatch it later.
+        </div>
+        <div className="px-5 py-4 flex gap-3 justify-end border-t">
+          <button
+            onClick={onCancel}
+            className="px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold"
+          >
+            Stay
+          </button>
+          <button
+            onClick={onQuit}
+            className="px-3 py-2 rounded-lg border border-red-200 bg-white hover:bg-red-50 text-red-600 text-sm font-semibold"
+          >
+            Quit
+          </button>
+          <button
+            onClick={onSaveAndQuit}
+            className="px-3 py-2 rounded-lg bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white text-sm font-semibold shadow"
+          >
+            Save replay &amp; quit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function PlayPage() {
   const router = useRouter();
   const [modeFromParams, setModeFromParams] = useState<GameModeKey>("free_for_all");
   const [lobbyFromParams, setLobbyFromParams] = useState<string | null>(null);
+  const [transportKind, setTransportKind] = useState<TransportKind | null>(null);
+  const [botLineup, setBotLineup] = useState<BotDifficulty[]>([]);
+  const [spectate, setSpectate] = useState(false);
+  const [inspector, setInspector] = useState<ProtocolLog | null>(null);
+  const [followedId, setFollowedId] = useState<string | null>(null);
   const [modeReady, setModeReady] = useState(false);
   const [isQuitting, setIsQuitting] = useState(false);
+  const [showQuitDialog, setShowQuitDialog] = useState(false);
+  const [showNetStats, setShowNetStats] = useState(false);
+  const [bufferUnderruns, setBufferUnderruns] = useState(0);
+
+  useEffect(() => {
+    setShowNetStats(localStorage.getItem("slize_netstats") === "1");
+  }, []);
+
+  const toggleNetStats = useCallback(() => {
+    setShowNetStats((prev) => {
+      const next = !prev;
+      try { localStorage.setItem("slize_netstats", next ? "1" : "0"); } catch { /* noop */ }
+      return next;
+    });
+  }, []);
+
+  const handleBufferUnderrun = useCallback((stats: SnapshotBufferStats) => {
+    setBufferUnderruns(stats.underruns);
+  }, []);
 
   useEffect(() => {
     // Комментарий по сути: этот код выполнится только на клиенте после гидратации.
@@ -111,13 +221,35 @@ export default function PlayPage() {
       const params = new URLSearchParams(window.location.search);
       const mode = params.get("mode");
       const lobby = params.get("lobby");
+      const transportParam = params.get("transport");
       setModeFromParams(resolveMode(mode));
+      // ?transport=loopback — игра целиком в памяти вкладки, без бэкенда
+      if (mode === OFFLINE_MODE) {
+        setTransportKind("offline");
+      } else if (transportParam) {
+        setTransportKind(resolveTransportKind(transportParam));
+      }
       setLobbyFromParams(lobby && lobby.trim().length > 0 ? lobby.trim() : null);
+      // Наблюдать можно только за конкретным лобби
+      setSpectate(params.get("spectate") === "1" && Boolean(lobby?.trim()));
+      setBotLineup(parseBotLineup(params.get("bots")));
+      // ?inspect=1 — журнал кадров сокета для отладки протокола
+      if (params.get("inspect") === "1") setInspector(new ProtocolLog());
     } finally {
       setModeReady(true); // ← сигнал: параметр считан/нормализован
     }
   }, []);
 
+  const transport = useMemo(
+    () => (transportKind ? getGameTransport(transportKind) : getGameTransport()),
+    [transportKind],
+  );
+
+  // Боты живут только в локальных лобби; состав нужно задать до создания лобби
+  useEffect(() => {
+    if (isLoopbackTransport(transport)) transport.setBotLineup(botLineup);
+  }, [botLineup, transport]);
+
   const {
     nickname,
     setNickname,
@@ -127,22 +259,26 @@ export default function PlayPage() {
     error,
     isLocked,
     lobbyName,
-    previousState,
-    currentState,
-    lastStateTimestamp,
     playerId,
+    game,
     gameOverInfo,
-    deadPlayerIds,
     vfx,
+    lastSentDirectionRef,
     isSilentlyReconnecting,
     handleConnect,
     handleDisconnect,
     handleLeave,
+    handlePlayHere,
     handleSwitchTeam,
     handleUsePowerUp,
     authBlockedReason,
     clearAuthBlock,
-  } = useGameClient(modeFromParams, lobbyFromParams);
+    networkStats,
+    inputStats,
+    hasReplay,
+    saveReplay,
+    isSpectating,
+  } = useGameClient(modeFromParams, lobbyFromParams, { transport, spectate, inspector, ready: modeReady });
 
   // Guard: если ника нет или короткий — назад на /main
   useEffect(() => {
@@ -192,16 +328,29 @@ export default function PlayPage() {
     handleConnect();
   }, [clearAuthBlock, handleConnect]);
 
-  const myPlayerInfo = playerId
-    ? currentState?.players[playerId] ?? null
-    : null;
+  // Страница читает из состояния игры только медленные срезы — на тиках она не перерисовывается
+  const myPowerUpSlots = useStoreSelector(game, ({ currentState }) =>
+    playerId ? currentState?.players[playerId]?.powerUpSlots : undefined,
+  );
+
+  // Наблюдатель смотрит «глазами» выбранного игрока; по умолчанию — лидера
+  const leaderId = useStoreSelector(game, selectLeaderId);
+  const isFollowedPresent = useStoreSelector(game, ({ currentState }) =>
+    Boolean(followedId && currentState?.players[followedId]),
+  );
+  const scrubber = useMemo(() => new HistoryScrubber(game.history), [game]);
+  const isTimeTraveling = useStoreSelector(scrubber, selectPaused);
+
+  const viewedPlayerId = isSpectating
+    ? (isFollowedPresent ? followedId : leaderId)
+    : playerId;
 
   const showOverlay =
     status !== "connected" || isSilentlyReconnecting || isLocked;
 
   const statusText =
     isLocked
-      ? "Another tab is active…"
+      ? "Playing in another tab"
       : isSilentlyReconnecting
         ? "Reconnecting…"
         : status === "authenticating"
@@ -212,11 +361,21 @@ export default function PlayPage() {
               ? "Connecting…"
               : "Reconnecting…";
 
-  const handleQuit = useCallback(async () => {
+  const quit = useCallback(async (withReplay: boolean) => {
+    setShowQuitDialog(false);
     setIsQuitting(true);      // стоп любым автоподключениям
+    if (withReplay) await saveReplay(); // до leave: он сбрасывает данные лобби
     await handleLeave();      // уведомляем сервер + чистим локально
     router.replace("/main");  // возвращаем на меню
-  }, [handleLeave, router]);
+  }, [handleLeave, router, saveReplay]);
+
+  const handleQuit = useCallback(() => {
+    if (hasReplay) {
+      setShowQuitDialog(true);
+      return;
+    }
+    void quit(false);
+  }, [hasReplay, quit]);
 
   return (
     <main className="relative flex flex-col items-center justify-start min-h-screen p-4 md:p-8">
@@ -231,7 +390,12 @@ export default function PlayPage() {
 
       {/* Постоянный layout игры — не скрываем при обрывах */}
       <div className="relative w-full max-w-7xl flex flex-col xl:grid xl:grid-cols-[150px_1fr_250px] gap-8 items-center xl:items-start">
-        <ConnectionOverlay visible={showOverlay} statusText={statusText} error={error} />
+        <ConnectionOverlay
+          visible={showOverlay}
+          statusText={statusText}
+          error={error}
+          onPlayHere={isLocked ? () => void handlePlayHere() : undefined}
+        />
 
         {/* Левая колонка */}
         <div className="order-1 xl:order-1 w-full max-w-sm xl:w-full xl:max-w-none p-0">
@@ -241,14 +405,27 @@ export default function PlayPage() {
               className="w-full xl:w-auto p-2 rounded bg-red-600 hover:bg-red-500 font-bold text-white transition shadow-md active:scale-[.99] text-sm"
               title="Quit to main"
             >
-              Quit Game
+              {isSpectating ? "Stop Watching" : "Quit Game"}
             </button>
+            {hasReplay && (
+              <button
+                onClick={() => void saveReplay()}
+                className={`w-full xl:w-auto inline-flex items-center justify-center gap-1.5 p-2 rounded border font-semibold transition active:scale-[.99] text-sm ${gameOverInfo
+                  ? "border-[var(--accent)] bg-[var(--accent)] text-white shadow-md hover:bg-[var(--accent-hover)]"
+                  : "border-gray-300 bg-white text-gray-600 hover:border-[var(--accent)] hover:text-[var(--accent)]"
+                  }`}
+                title="Download a replay of this session"
+              >
+                <Download className="h-4 w-4" strokeWidth={2.2} />
+                Save replay
+              </button>
+            )}
           </div>
-          {currentState && playerId && (
+          {viewedPlayerId && (
             <TeamPanel
-              currentState={currentState}
-              playerId={playerId}
-              onSwitchTeam={handleSwitchTeam}
+              game={game}
+              playerId={viewedPlayerId}
+              onSwitchTeam={isSpectating ? undefined : handleSwitchTeam}
             />
           )}
         </div>
@@ -256,13 +433,13 @@ export default function PlayPage() {
         {/* Центр — канвас */}
         <div className="order-3 xl:order-2 flex-shrink-0 flex justify-center w-full">
           <GameCanvas
-            previousState={previousState}
-            currentState={currentState}
-            lastStateTimestamp={lastStateTimestamp}
-            playerId={playerId}
-            deadPlayerIds={deadPlayerIds}
+            game={game}
+            playerId={viewedPlayerId}
             vfx={vfx}
-            gameOver={gameOverInfo}
+            localDirectionRef={isSpectating || isTimeTraveling ? undefined : lastSentDirectionRef}
+            frameSource={isTimeTraveling ? scrubber.sample : undefined}
+            clock={isTimeTraveling ? scrubber.serverNow : undefined}
+            onBufferUnderrun={handleBufferUnderrun}
           />
         </div>
 
@@ -277,78 +454,57 @@ export default function PlayPage() {
               >
                 {lobbyName ?? "Matching..."}
               </span>
-            </div>
-            <h2 className="text-xl font-bold mb-4 border-b border-[var(--accent)]/50 text-[var(--accent)] pb-2 tracking-wide">
-              Leaderboard
-            </h2>
-            {currentState && (
-              <div
-                className="px-2.5 py-1 rounded-md text-xs font-semibold"
-                style={{
-                  background: "rgba(15,23,42,0.06)",
-                  color: "var(--foreground)",
-                }}
-                title="Time left in the round"
+              <button
+                type="button"
+                onClick={toggleNetStats}
+                className={`inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-full border transition ${showNetStats
+                  ? "border-[var(--accent)] text-[var(--accent)]"
+                  : "border-slate-200 text-slate-400 hover:text-[var(--accent)]"
+                  }`}
+                title="Network stats"
+                aria-pressed={showNetStats}
               >
-                {(() => {
-                  const elapsed = currentState.tick * GAME_TIMING.serverTickRate;
-                  const remain = Math.max(0, GAME_TIMING.roundDurationMs - elapsed);
-                  const seconds = Math.floor(remain / 1000);
-                  const mm = String(Math.floor(seconds / 60)).padStart(2, "0");
-                  const ss = String(seconds % 60).padStart(2, "0");
-                  return (
-                    <>
-                      Round&nbsp;
-                      <span className="text-[var(--accent)]">
-                        {mm}:{ss}
-                      </span>
-                    </>
-                  );
-                })()}
-              </div>
-            )}
-            <div className="flex flex-col gap-1">
-              {currentState?.players &&
-                Object.entries(currentState.players)
-                  .sort(([, a], [, b]) => b.score - a.score)
-                  .map(([id, player], index) => (
-                    <div
-                      key={id}
-                      className={`flex justify-between items-center p-2 rounded-lg transition duration-150 text-sm ${id === playerId
-                        ? "bg-[var(--accent)]/10 border border-[var(--accent)]/30 shadow-inner"
-                        : "hover:bg-gray-100"
-                        }`}
-                    >
-                      <span
-                        className={`font-semibold truncate ${id === playerId
-                          ? "text-[var(--accent)] font-bold"
-                          : "text-foreground"
-                          }`}
-                      >
-                        {index + 1}. {player.nickname}
-                      </span>
-                      <span className="font-mono text-base text-[var(--accent)] font-bold">
-                        {player.score}
-                      </span>
-                    </div>
-                  ))}
+                <Activity className="h-4 w-4" strokeWidth={2.2} />
+              </button>
             </div>
+            {showNetStats && (
+              <NetworkStatsOverlay stats={networkStats} bufferUnderruns={bufferUnderruns} inputStats={inputStats} />
+            )}
+            <Leaderboard game={game} highlightedId={viewedPlayerId} />
           </div>
 
-          <PowerUpBar
-            powerUpSlots={myPlayerInfo?.powerUpSlots}
-            onUsePowerUp={handleUsePowerUp}
-          />
+          {isSpectating ? (
+            <SpectatorFollowPanel
+              game={game}
+              followedId={followedId}
+              onFollow={setFollowedId}
+            />
+          ) : (
+            <PowerUpBar
+              powerUpSlots={myPowerUpSlots}
+              onUsePowerUp={handleUsePowerUp}
+            />
+          )}
+
+          <KillFeed game={game} highlightedId={viewedPlayerId} />
         </div>
       </div>
 
       <div className="mt-8 text-center text-gray-500 text-sm">
-        <p>
-          Use <b>W, A, S, D</b> or <b>Arrow Keys</b> to move.
-        </p>
-        <p>
-          Use keys <b>1, 2, 3</b> to activate abilities.
-        </p>
+        {isSpectating ? (
+          <p>
+            You are watching this lobby. Pick a player on the right to follow them.
+          </p>
+        ) : (
+          <>
+            <p>
+              Use <b>W, A, S, D</b> or <b>Arrow Keys</b> to move.
+            </p>
+            <p>
+              Use keys <b>1, 2, 3</b> to activate abilities.
+            </p>
+          </>
+        )}
       </div>
 
       {/* Маленький тост ошибки внизу, если нужно */}
@@ -365,6 +521,16 @@ export default function PlayPage() {
         onChangeNickname={goChangeNickname}
         onRetry={retryAuth}
       />
+
+      {inspector && <ProtocolInspector log={inspector} />}
+      {TIME_TRAVEL_ENABLED && <TimeTravelPanel scrubber={scrubber} />}
+
+      <QuitDialog
+        visible={showQuitDialog}
+        onCancel={() => setShowQuitDialog(false)}
+        onQuit={() => void quit(false)}
+        onSaveAndQuit={() => void quit(true)}
+      />
     </main>
   );
 }
@@ -0,0 +1,217 @@
+// src/app/main/replay/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { FolderOpen } from "lucide-react";
+
+import { GameCanvas } from "@/features/game/components/GameCanvas";
+import { ReplayControls } from "@/features/game/components/ReplayControls";
+import { REPLAY } from "@/features/game/config";
+import { ReplayPlayer } from "@/features/game/lib/replay/ReplayPlayer";
+import { decodeReplay, ReplayFormatError, type ReplayFile } from "@/features/game/lib/replay/replayFile";
+import { buildReplayTimeline } from "@/features/game/lib/replay/replayTimeline";
+import type { VFX } from "@/features/game/canvas/types";
+
+// Сколько кадров после смерти змейка подсвечивается как погибшая
+const DEATH_FLASH_FRAMES = 3;
+const NO_VFX: VFX[] = [];
+
+function ReplayViewer({ replay, player }: { replay: ReplayFile; player: ReplayPlayer }) {
+  const playback = useSyncExternalStore(player.subscribe, player.getSnapshot, player.getSnapshot);
+  const { frames, participants } = player.timeline;
+  const frame = frames[playback.frameIndex] ?? null;
+
+  const [perspectiveId, setPerspectiveId] = useState<string | null>(() =>
+    participants.some((p) => p.playerId === replay.playerId) ? replay.playerId : participants[0]?.playerId ?? null,
+  );
+
+  const deadPlayerIds = useMemo(() => {
+    const ids = new Set<string>();
+    for (let index = Math.max(0, playback.frameIndex - DEATH_FLASH_FRAMES); index <= playback.frameIndex; index++) {
+      frames[index]?.deaths.forEach((id) => ids.add(id));
+    }
+    return ids;
+  }, [frames, playback.frameIndex]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      if (event.key === " ") {
+        event.preventDefault();
+        player.toggle();
+      } else if (event.key === "ArrowLeft") {
+        player.step(-1);
+      } else if (event.key === "ArrowRight") {
+        player.step(1);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [player]);
+
+  return (
+    <div className="relative w-full max-w-7xl flex flex-col xl:grid xl:grid-cols-[1fr_280px] gap-8 items-center xl:items-start">
+      <div className="flex w-full flex-col items-center gap-4">
+        <GameCanvas
+          currentState={frame?.state ?? null}
+          playerId={perspectiveId}
+          deadPlayerIds={deadPlayerIds}
+          vfx={NO_VFX}
+          gameOver={frame?.gameOver ?? null}
+          frameSource={player.sample}
+          clock={player.serverNow}
+        />
+        <ReplayControls player={player} playback={playback} />
+      </div>
+
+      <div className="w-full max-w-sm xl:w-full">
+        <div className="bg-card-bg p-6 rounded-xl shadow-lg border border-gray-200">
+          <div className="mb-4 space-y-1 text-left">
+            <span className="text-[11px] uppercase tracking-[0.32em] text-slate-400">Replay</span>
+            <p className="truncate text-lg font-bold text-[var(--accent)]">{replay.lobbyName ?? replay.lobbyId ?? "Match"}</p>
+            <p className="text-xs text-slate-500">
+              {new Date(replay.startedAt).toLocaleString()}
+              {replay.nickname ? ` · recorded by ${replay.nickname}` : ""}
+            </p>
+            {replay.truncated && (
+              <p className="text-xs text-amber-600">Recording hit its size limit and ends early.</p>
+            )}
+          </div>
+
+          <label className="mb-1 block text-left text-xs font-semibold text-slate-500">Perspective</label>
+          <select
+            value={perspectiveId ?? ""}
+            onChange={(e) => setPerspectiveId(e.target.value || null)}
+            className="mb-6 w-full rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-[var(--accent-hover)]"
+          >
+            <option value="">Spectator (no highlight)</option>
+            {participants.map((participant) => (
+              <option key={participant.playerId} value={participant.playerId}>
+                {participant.nickname}
+              </option>
+            ))}
+          </select>
+
+          <h2 className="text-xl font-bold mb-4 border-b border-[var(--accent)]/50 text-[var(--accent)] pb-2 tracking-wide">
+            Leaderboard
+          </h2>
+          <div className="flex flex-col gap-1">
+            {frame &&
+              Object.entries(frame.state.players)
+                .sort(([, a], [, b]) => b.score - a.score)
+                .map(([id, info], index) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => setPerspectiveId(id)}
+                    className={`flex justify-between items-center p-2 rounded-lg transition duration-150 text-sm text-left ${id === perspectiveId
+                      ? "bg-[var(--accent)]/10 border border-[var(--accent)]/30 shadow-inner"
+                      : "hover:bg-gray-100"
+                      }`}
+                    title="View from this player"
+                  >
+                    <span
+                      className={`font-semibold truncate ${id === perspectiveId ? "text-[var(--accent)] font-bold" : "text-foreground"}`}
+                    >
+                      {index + 1}. {info.nickname}
+                    </span>
+                    <span className="font-mono text-base text-[var(--accent)] font-bold">{info.score}</span>
+                  </button>
+                ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ReplayPage() {
+  const [replay, setReplay] = useState<ReplayFile | null>(null);
+  const [player, setPlayer] = useState<ReplayPlayer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const openFile = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const decoded = await decodeReplay(file);
+      const timeline = buildReplayTimeline(decoded);
+      if (!timeline.frames.length) throw new ReplayFormatError("This replay has no game frames.");
+      const nextPlayer = new ReplayPlayer(timeline);
+      setReplay(decoded);
+      setPlayer(nextPlayer);
+      nextPlayer.play();
+    } catch (err) {
+      console.error("Failed to open replay:", err);
+      setError(err instanceof ReplayFormatError ? err.message : "Could not read this file.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Уходя со страницы, останавливаем проигрывание
+  useEffect(() => () => player?.pause(), [player]);
+
+  return (
+    <main
+      className="relative flex flex-col items-center justify-start min-h-screen p-4 md:p-8"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) void openFile(file);
+      }}
+    >
+      <div className="mb-6 flex w-full max-w-7xl items-center justify-between gap-4">
+        <h1 className="text-3xl font-extrabold bg-clip-text text-transparent bg-gradient-to-r from-teal-500 to-sky-600 tracking-tighter">
+          Slize Replays
+        </h1>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="inline-flex items-center gap-2 rounded-lg bg-[var(--accent)] px-3 py-2 text-sm font-semibold text-white shadow hover:bg-[var(--accent-hover)]"
+          >
+            <FolderOpen className="h-4 w-4" strokeWidth={2.2} />
+            {replay ? "Open another" : "Open replay"}
+          </button>
+          <Link href="/main" className="text-sm font-semibold text-[var(--accent)] hover:text-[var(--accent-hover)]">
+            Back to menu
+          </Link>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={`${REPLAY.fileExtension},application/gzip,application/json`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void openFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-red-200 bg-white px-4 py-2 text-sm text-red-600 shadow">{error}</div>
+      )}
+
+      {replay && player ? (
+        <ReplayViewer key={replay.startedAt} replay={replay} player={player} />
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="mt-12 flex w-full max-w-md flex-col items-center gap-3 rounded-2xl border-2 border-dashed border-gray-300 bg-white/70 p-10 text-center text-gray-500 transition hover:border-[var(--accent)] hover:text-[var(--accent)]"
+        >
+          <FolderOpen className="h-8 w-8" strokeWidth={1.8} />
+          <span className="font-semibold">{isLoading ? "Loading…" : "Drop a replay file here or click to browse"}</span>
+          <span className="text-xs">Save one from a match with “Save replay”.</span>
+        </button>
+      )}
+    </main>
+  );
+}
@@ -1,4 +1,3 @@
-import { GAME_TIMING } from '@/features/game/config';
 import {
     drawBlocks,
     drawFood,
@@ -16,39 +15,69 @@ import { createGridState, drawGridLayer, drawGridImmediate, computeGridTransitio
 import { drawNicknames, drawResizeBanner } from '@/features/game/canvas/renderer/hud';
 import { configureCanvas, resolveMetrics } from '@/features/game/canvas/renderer/metrics';
 import type { VFX } from '@/features/game/canvas/types';
+import { GAME_TIMING } from '@/features/game/config';
+import { createLocalSnakePredictor } from '@/features/game/lib/client/prediction';
+import { serverClock } from '@/features/game/lib/client/serverClock';
+import { SnapshotBuffer, type SnapshotBufferStats, type SnapshotFrame } from '@/features/game/lib/client/snapshotBuffer';
+import type { Direction } from '@/features/game/lib/client/direction';
 import type { GameOverInfo, GameState } from '@/features/game/types';
 
+const withSnakes = (state: GameState, keep: (id: string) => boolean): GameState => ({
+    ...state,
+    snakes: state.snakes.filter((snake) => keep(snake.id)),
+});
+
 export class CanvasRenderer {
     private readonly staticCanvas: HTMLCanvasElement;
     private readonly dynamicCanvas: HTMLCanvasElement;
 
-    private previousState: GameState | null = null;
     private currentState: GameState | null = null;
-    private lastStateTimestamp = 0;
+    // Предыдущий тик и время прихода свежего — для своей змейки, которая рисуется мимо буфера
+    private previousState: GameState | null = null;
+    private currentReceivedAt = 0;
     private playerId: string | null = null;
     private deadIds: Set<string> = new Set();
     private vfx: VFX[] = [];
     private gameOverInfo: GameOverInfo | null | undefined = null;
+    private localDirectionSource: (() => Direction | null) | null = null;
+    private underrunListener: ((stats: SnapshotBufferStats) => void) | null = null;
+    private reportedUnderruns = 0;
+    // Внешний источник кадров и часов (проигрыватель реплеев) вместо живого буфера
+    private frameSource: ((now: number) => SnapshotFrame) | null = null;
+    private clock: () => number = () => serverClock.now();
 
     private readonly gridState = createGridState();
     private readonly postFxState = createPostFxState();
     private readonly nameCache = new Map<string, HTMLCanvasElement>();
+    private readonly predictor = createLocalSnakePredictor();
+    private readonly snapshots = new SnapshotBuffer();
 
     constructor(staticCanvas: HTMLCanvasElement, dynamicCanvas: HTMLCanvasElement) {
         this.staticCanvas = staticCanvas;
         this.dynamicCanvas = dynamicCanvas;
     }
 
-    setPreviousState(state: GameState | null) {
-        this.previousState = state;
+    // Снапшоты кладутся в буфер по тику; receivedAt — время прихода пакета (performance.now())
+    pushState(state: GameState | null, receivedAt: number) {
+        if (state && this.currentState?.tick !== state.tick) {
+            this.previousState = this.currentState;
+            this.currentReceivedAt = receivedAt;
+        }
+        this.currentState = state;
+        if (!state) {
+            this.previousState = null;
+            this.snapshots.clear();
+            return;
+        }
+        this.snapshots.push(state, receivedAt);
     }
 
-    setCurrentState(state: GameState | null) {
-        this.currentState = state;
+    setUnderrunListener(listener: ((stats: SnapshotBufferStats) => void) | null) {
+        this.underrunListener = listener;
     }
 
-    setLastStateTimestamp(timestamp: number) {
-        this.lastStateTimestamp = timestamp;
+    getBufferStats(): SnapshotBufferStats {
+        return this.snapshots.getStats();
     }
 
     setPlayerId(id: string | null) {
@@ -67,11 +96,65 @@ export class CanvasRenderer {
         this.gameOverInfo = info;
     }
 
+    // Подменяет живой буфер снапшотов: каждый кадр берётся из source
+    setFrameSource(source: ((now: number) => SnapshotFrame) | null) {
+        this.frameSource = source;
+    }
+
+    // Часы для серверных таймстемпов (эффекты, блоки, баннеры); по умолчанию — живые серверные
+    setClock(clock: (() => number) | null) {
+        this.clock = clock ?? (() => serverClock.now());
+    }
+
+    // Направление для предсказания своей змейки читается каждый кадр, без ре-рендеров React
+    setLocalDirectionSource(source: (() => Direction | null) | null) {
+        this.localDirectionSource = source;
+        if (!source) this.predictor.reset();
+    }
+
+    // Своя змейка — от самого свежего снапшота на тик вперёд: буфер отстаёт на свою задержку,
+    // и предсказание от его кадра всё равно показывало бы прошлое
+    private sampleLocalSnake(rafTimestamp: number, serverNow: number) {
+        const newest = this.currentState;
+        const playerId = this.playerId;
+        if (this.frameSource || !this.localDirectionSource || !newest || !playerId) return null;
+        if (!newest.snakes.some((snake) => snake.id === playerId)) return null;
+
+        const view = this.predictor.apply({
+            current: newest,
+            previous: this.previousState,
+            playerId,
+            direction: this.localDirectionSource(),
+            now: serverNow,
+        });
+        const elapsed = (rafTimestamp - this.currentReceivedAt) / GAME_TIMING.serverTickRate;
+        const isLocal = (id: string) => id === playerId;
+        return {
+            playerId,
+            current: withSnakes(view.current, isLocal),
+            previous: view.previous && withSnakes(view.previous, isLocal),
+            interpolation: Math.min(Math.max(elapsed, 0), 1),
+        };
+    }
+
     draw(rafTimestamp: number) { // 'rafTimestamp' is performance.now() from requestAnimationFrame
+        // now — локальное время для анимаций, serverNow — для серверных таймстемпов (эффекты, блоки)
         const now = Date.now();
+        const serverNow = this.clock();
         
-        if (!this.currentState) return;
-        const metrics = resolveMetrics(this.currentState.gridSize);
+        const frame = this.frameSource ? this.frameSource(rafTimestamp) : this.snapshots.sample(rafTimestamp);
+        const current = frame.current ?? this.currentState;
+        const previous = frame.current ? frame.previous : null;
+        const interpolation = Math.min(Math.max(frame.interpolation, 0), 1);
+
+        const stats = this.snapshots.getStats();
+        if (stats.underruns !== this.reportedUnderruns) {
+            this.reportedUnderruns = stats.underruns;
+            this.underrunListener?.(stats);
+        }
+
+        if (!current) return;
+        const metrics = resolveMetrics(current.gridSize);
         if (!metrics) return;
 
         // Статический слой: фон
@@ -107,40 +190,55 @@ export class CanvasRenderer {
         ctx.scale(scale, scale);
         ctx.translate(-cx, -cy);
 
-        // Временной интерполяционный коэффициент для движущихся объектов
-        const elapsedSinceState = Math.max(0, rafTimestamp - this.lastStateTimestamp);
-        const interpolation = Math.min(
-            Math.max(elapsedSinceState / GAME_TIMING.serverTickRate, 0),
-            1,
-        );
-
         // Сетка — теперь «мгновенная», плавность даёт общий масштаб
         drawGridImmediate(ctx, metrics);
 
+        // Своя змейка — с предсказанием от свежего снапшота, остальные из буфера
+        const local = this.sampleLocalSnake(rafTimestamp, serverNow);
+        const isRemote = (id: string) => id !== local?.playerId;
+        const snakesView = local
+            ? { current: withSnakes(current, isRemote), previous: previous && withSnakes(previous, isRemote) }
+            : { current, previous };
+
         // Сущности сцены
-        drawBlocks(ctx, metrics, this.currentState);
-        drawFood(ctx, metrics, this.currentState);
-        drawPowerUps(ctx, metrics, this.currentState);
-        drawProjectiles(ctx, metrics, this.currentState, this.previousState, interpolation);
+        drawBlocks(ctx, metrics, current, serverNow);
+        drawFood(ctx, metrics, current);
+        drawPowerUps(ctx, metrics, current);
+        drawProjectiles(ctx, metrics, current, previous, interpolation);
         drawSnakes({
             ctx,
-            current: this.currentState,
-            previous: this.previousState,
+            current: snakesView.current,
+            previous: snakesView.previous,
             metrics,
             playerId: this.playerId,
             deadIds: this.deadIds,
             interpolation,
-            now,
+            now: serverNow,
         });
-        drawNicknames(ctx, metrics, this.currentState, this.previousState, interpolation, this.nameCache);
+        if (local) {
+            drawSnakes({
+                ctx,
+                current: local.current,
+                previous: local.previous,
+                metrics,
+                playerId: this.playerId,
+                deadIds: this.deadIds,
+                interpolation: local.interpolation,
+                now: serverNow,
+            });
+        }
+        drawNicknames(ctx, metrics, snakesView.current, snakesView.previous, interpolation, this.nameCache);
+        if (local) {
+            drawNicknames(ctx, metrics, local.current, local.previous, local.interpolation, this.nameCache);
+        }
         drawVfx(ctx, metrics, this.vfx);
-        drawResizeBanner(ctx, metrics, this.currentState);
+        drawResizeBanner(ctx, metrics, current, serverNow);
 
         // Постэффекты и баннер победы — тоже попадают под общий масштаб
         applyPostFx(ctx, metrics, this.postFxState);
 
         if (this.gameOverInfo) {
-            drawGameOverBanner(ctx, metrics, this.gameOverInfo);
+            drawGameOverBanner(ctx, metrics, this.gameOverInfo, serverNow);
         }
 
         ctx.restore();
@@ -110,10 +110,11 @@ export const drawGameOverBanner = (
   ctx: CanvasRenderingContext2D,
   metrics: Metrics,
   info: GameOverInfo,
+  serverNow: number,
 ) => {
   ctx.save();
 
-  const remainingMs = Math.max(0, info.resetAt - Date.now());
+  const remainingMs = Math.max(0, info.resetAt - serverNow);
   const seconds = Math.floor(remainingMs / 1000);
   const secondsStr = seconds.toString().padStart(2, '0');
 
@@ -14,11 +14,9 @@ const DIR = {
   right: { x: 1, y: 0 },
 } as const;
 
-export const drawBlocks = (ctx: CanvasRenderingContext2D, metrics: Metrics, state: GameState) => {
+export const drawBlocks = (ctx: CanvasRenderingContext2D, metrics: Metrics, state: GameState, now: number) => {
   if (!state.blocks?.length) return;
 
-  const now = Date.now();
-
   for (const block of state.blocks) {
     if (!block.state) continue;
 
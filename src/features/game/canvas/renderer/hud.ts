@@ -56,13 +56,12 @@ export const drawNicknames = (
   }
 };
 
-export const drawResizeBanner = (ctx: CanvasRenderingContext2D, metrics: Metrics, state: GameState) => {
+export const drawResizeBanner = (ctx: CanvasRenderingContext2D, metrics: Metrics, state: GameState, now: number) => {
   const resize = state.pendingResize;
   if (!resize) return;
 
   const fillAt = resize.announcedAt + resize.warnMs;
   const shrinkAt = fillAt + resize.killMs;
-  const now = Date.now();
 
   let text: string;
   if (now < fillAt) {
@@ -0,0 +1,86 @@
+// src/features/game/components/BotLineupPicker.tsx
+"use client";
+
+import { Bot, Plus, X } from "lucide-react";
+
+import { BOTS } from "@/features/game/config";
+import { BOT_DIFFICULTIES, type BotDifficulty } from "@/features/game/lib/bots";
+
+interface BotLineupPickerProps {
+  lineup: BotDifficulty[];
+  onChange: (lineup: BotDifficulty[]) => void;
+}
+
+export function BotLineupPicker({ lineup, onChange }: BotLineupPickerProps) {
+  const canAdd = lineup.length < BOTS.maxPerMatch;
+
+  const updateAt = (index: number, difficulty: BotDifficulty) => {
+    onChange(lineup.map((entry, i) => (i === index ? difficulty : entry)));
+  };
+
+  const removeAt = (index: number) => {
+    onChange(lineup.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="w-full max-w-md rounded-2xl border border-gray-200 bg-white/70 p-6 text-left shadow-lg backdrop-blur-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">Practice opponents</p>
+          <p className="text-xs text-gray-500">Bots join offline matches only.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange([...lineup, lineup[lineup.length - 1] ?? "normal"])}
+          disabled={!canAdd}
+          className="inline-flex items-center gap-1 rounded-full border border-[var(--accent)]/60 px-3 py-1 text-xs font-semibold text-[var(--accent)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          <Plus className="h-3.5 w-3.5" strokeWidth={2.4} />
+          Add bot
+        </button>
+      </div>
+
+      {lineup.length === 0 ? (
+        <p className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-3 text-center text-xs text-slate-500">
+          No bots — just you and the arena.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {lineup.map((difficulty, index) => {
+            const meta = BOT_DIFFICULTIES.find((entry) => entry.key === difficulty);
+            return (
+              <li
+                key={index}
+                className="flex items-center gap-3 rounded-xl border border-slate-100 bg-white px-3 py-2 shadow-sm"
+              >
+                <Bot className="h-4 w-4 shrink-0 text-[var(--accent)]" strokeWidth={2.2} />
+                <div className="min-w-0 flex-1">
+                  <select
+                    value={difficulty}
+                    onChange={(e) => updateAt(index, e.target.value as BotDifficulty)}
+                    className="w-full bg-transparent text-sm font-semibold focus:outline-none"
+                  >
+                    {BOT_DIFFICULTIES.map((entry) => (
+                      <option key={entry.key} value={entry.key}>
+                        {entry.label} ({entry.key})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="truncate text-[11px] text-slate-400">{meta?.description}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeAt(index)}
+                  className="inline-flex h-7 w-7 items-center justify-center rounded-full text-slate-400 transition hover:bg-red-50 hover:text-red-500"
+                  title="Remove bot"
+                >
+                  <X className="h-4 w-4" strokeWidth={2.2} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
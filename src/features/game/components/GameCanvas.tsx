@@ -4,36 +4,52 @@
 // Тонкая React-обёртка вокруг CanvasRenderer.
 // Держит только рефы и жизненный цикл. Вся отрисовка — в CanvasRenderer.
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import type { MutableRefObject } from 'react';
 import type { GameState, GameOverInfo } from '@/features/game/types';
 import { CanvasRenderer } from '@/features/game/canvas/CanvasRenderer';
 import type { VFX } from '@/features/game/canvas/types';
 import { calculateCanvasSize } from '@/features/game/lib/canvasMetrics';
+import type { Direction } from '@/features/game/lib/client/direction';
+import type { SnapshotBufferStats, SnapshotFrame } from '@/features/game/lib/client/snapshotBuffer';
+import type { GameStateSnapshot } from '@/features/game/lib/sdk/GameStateModel';
+import type { ExternalStore } from '@/features/game/hooks/useStoreSelector';
 
 interface GameCanvasProps {
-  previousState: GameState | null;
-  currentState: GameState | null;
-  lastStateTimestamp: number;
+  // Живая игра: состояния идут прямо в рендерер, компонент не ре-рендерится на каждый тик
+  game?: ExternalStore<GameStateSnapshot>;
+  // Без game (реплеи) состояние приходит пропсами
+  currentState?: GameState | null;
+  deadPlayerIds?: Set<string>;
+  gameOver?: GameOverInfo | null;
   playerId: string | null;
-  deadPlayerIds: Set<string>;
   vfx: VFX[];
-  gameOver: GameOverInfo | null | undefined;
+  localDirectionRef?: MutableRefObject<Direction | null>;
+  onBufferUnderrun?: (stats: SnapshotBufferStats) => void;
+  // Реплей: кадры берутся отсюда вместо живого буфера снапшотов
+  frameSource?: (now: number) => SnapshotFrame;
+  // Реплей: серверное время показываемого кадра
+  clock?: () => number;
 }
 
 export function GameCanvas({
-  previousState,
-  currentState,
-  lastStateTimestamp,
+  game,
+  currentState = null,
   playerId,
   deadPlayerIds,
   vfx,
   gameOver,
+  localDirectionRef,
+  onBufferUnderrun,
+  frameSource,
+  clock,
 }: GameCanvasProps) {
   const wrapperRef = useRef<HTMLDivElement>(null);
   const staticCanvasRef = useRef<HTMLCanvasElement>(null);
   const dynamicCanvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<CanvasRenderer | null>(null);
   const rafRef = useRef<number | null>(null);
+  const [liveGridSize, setLiveGridSize] = useState<number | null>(null);
 
   // Инициализация рендерера единажды
   useEffect(() => {
@@ -62,17 +78,48 @@ export function GameCanvas({
     };
   }, []);
 
-  // Прокидываем новые снапшоты/refs в рендерер — без лишних перерисовок React
-  useEffect(() => { rendererRef.current?.setPreviousState(previousState); }, [previousState]);
-  useEffect(() => { rendererRef.current?.setCurrentState(currentState); }, [currentState]);
-  useEffect(() => { rendererRef.current?.setLastStateTimestamp(lastStateTimestamp); }, [lastStateTimestamp]);
+  // Живая игра: подписываемся на модель сами и кладём кадры в рендерер мимо React.
+  // Ре-рендер нужен только при смене размера поля
+  useEffect(() => {
+    if (!game) return;
+    let last: GameStateSnapshot | null = null;
+    const push = () => {
+      const renderer = rendererRef.current;
+      const snapshot = game.getSnapshot();
+      if (!renderer || snapshot === last) return;
+      if (snapshot.currentState !== last?.currentState) {
+        renderer.pushState(snapshot.currentState, snapshot.lastStateTimestamp || performance.now());
+      }
+      if (snapshot.deadPlayerIds !== last?.deadPlayerIds) renderer.setDeadIds(snapshot.deadPlayerIds);
+      if (snapshot.gameOverInfo !== last?.gameOverInfo) renderer.setGameOver(snapshot.gameOverInfo);
+      last = snapshot;
+      setLiveGridSize(snapshot.currentState?.gridSize ?? snapshot.previousState?.gridSize ?? null);
+    };
+    push();
+    return game.subscribe(push);
+  }, [game]);
+
+  // Реплей: снапшоты приходят пропсами
+  useEffect(() => {
+    if (!game) rendererRef.current?.pushState(currentState, performance.now());
+  }, [currentState, game]);
+  useEffect(() => {
+    if (!game) rendererRef.current?.setDeadIds(deadPlayerIds ?? new Set());
+  }, [deadPlayerIds, game]);
+  useEffect(() => {
+    if (!game) rendererRef.current?.setGameOver(gameOver);
+  }, [gameOver, game]);
   useEffect(() => { rendererRef.current?.setPlayerId(playerId); }, [playerId]);
-  useEffect(() => { rendererRef.current?.setDeadIds(deadPlayerIds); }, [deadPlayerIds]);
   useEffect(() => { rendererRef.current?.setVfx(vfx); }, [vfx]);
-  useEffect(() => { rendererRef.current?.setGameOver(gameOver); }, [gameOver]);
+  useEffect(() => {
+    rendererRef.current?.setLocalDirectionSource(localDirectionRef ? () => localDirectionRef.current : null);
+  }, [localDirectionRef]);
+  useEffect(() => { rendererRef.current?.setUnderrunListener(onBufferUnderrun ?? null); }, [onBufferUnderrun]);
+  useEffect(() => { rendererRef.current?.setFrameSource(frameSource ?? null); }, [frameSource]);
+  useEffect(() => { rendererRef.current?.setClock(clock ?? null); }, [clock]);
 
   // Вычисляем CSS-размер по текущему gridSize (как раньше)
-  const gridSizeForLayout = currentState?.gridSize ?? previousState?.gridSize ?? null;
+  const gridSizeForLayout = game ? liveGridSize : currentState?.gridSize ?? null;
   const cssSize =
     gridSizeForLayout && gridSizeForLayout > 0 ? calculateCanvasSize(gridSizeForLayout) : 0;
 
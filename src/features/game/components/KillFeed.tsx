@@ -0,0 +1,112 @@
+// src/features/game/components/KillFeed.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { Skull } from "lucide-react";
+
+import { KILL_FEED } from "@/features/game/config";
+import type { GameStateModel } from "@/features/game/lib/sdk/GameStateModel";
+import type { DeathCause } from "@/features/game/types";
+
+interface KillFeedProps {
+  game: Pick<GameStateModel, "onEvent" | "getSnapshot">;
+  // Записи с этим игроком выделяются: свой игрок или тот, за кем следит наблюдатель
+  highlightedId: string | null;
+}
+
+interface KillFeedEntry {
+  id: number;
+  victimId: string;
+  victim: string;
+  killerId: string | null;
+  killer: string | null;
+  cause: DeathCause | null;
+  causeInferred: boolean;
+}
+
+const describeCause = (cause: DeathCause | null, killer: string | null) => {
+  switch (cause?.kind) {
+    case "snake":
+      return killer ? `crashed into ${killer}` : "crashed into a snake";
+    case "self":
+      return "ran into their own tail";
+    case "projectile":
+      return killer ? `was shot by ${killer}` : "was shot";
+    case "block":
+      return "hit a kill zone";
+    case "wall":
+      return "hit the wall";
+    case "arena_shrink":
+      return "was caught by the shrinking arena";
+    default:
+      return "died";
+  }
+};
+
+// Последние смерти с причинами; записи гаснут через несколько секунд
+export function KillFeed({ game, highlightedId }: KillFeedProps) {
+  const [entries, setEntries] = useState<KillFeedEntry[]>([]);
+
+  useEffect(() => {
+    let nextId = 0;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = game.onEvent((event) => {
+      if (event.type !== "player_died") return;
+      // Ники берём сразу: к моменту отрисовки игрок может уже выйти
+      const players = game.getSnapshot().currentState?.players ?? {};
+      const killerId = event.cause?.killerId ?? null;
+      const entry: KillFeedEntry = {
+        id: nextId++,
+        victimId: event.playerId,
+        victim: players[event.playerId]?.nickname ?? event.playerId,
+        killerId,
+        killer: killerId ? players[killerId]?.nickname ?? killerId : null,
+        cause: event.cause,
+        causeInferred: event.causeInferred,
+      };
+      setEntries((prev) => [entry, ...prev].slice(0, KILL_FEED.maxEntries));
+
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+      }, KILL_FEED.entryTtlMs);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+      setEntries([]);
+    };
+  }, [game]);
+
+  if (!entries.length) return null;
+
+  return (
+    <div className="w-full p-4 rounded-xl shadow-lg border border-gray-200 bg-card-bg mt-4">
+      <h3 className="mb-2 flex items-center gap-2 text-sm font-bold uppercase tracking-wide text-slate-500">
+        <Skull className="h-4 w-4" strokeWidth={2.2} />
+        Kill feed
+      </h3>
+      <ul className="flex flex-col gap-1 text-sm">
+        {entries.map((entry) => {
+          const involved = highlightedId !== null && (entry.victimId === highlightedId || entry.killerId === highlightedId);
+          return (
+            <li
+              key={entry.id}
+              className={`rounded-lg px-2 py-1 ${involved ? "bg-[var(--accent)]/10 text-[var(--accent)]" : "text-gray-700"}`}
+            >
+              <span className="font-semibold">{entry.victim}</span> {describeCause(entry.cause, entry.killer)}
+              {entry.causeInferred && (
+                <span className="ml-1 text-xs text-slate-400" title="Cause guessed from the last state">
+                  ?
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
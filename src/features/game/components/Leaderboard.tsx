@@ -0,0 +1,83 @@
+// src/features/game/components/Leaderboard.tsx
+"use client";
+
+import { GAME_TIMING } from "@/features/game/config";
+import type { GameStateSnapshot } from "@/features/game/lib/sdk/GameStateModel";
+import { useStoreSelector, type ExternalStore } from "@/features/game/hooks/useStoreSelector";
+
+interface LeaderboardProps {
+  game: ExternalStore<GameStateSnapshot>;
+  // Подсвеченная строка: свой игрок или тот, за кем следит наблюдатель
+  highlightedId: string | null;
+}
+
+// Секунды, а не тик: таймер перерисовывается раз в секунду, а не на каждом кадре
+const selectSecondsLeft = ({ currentState }: GameStateSnapshot) => {
+  if (!currentState) return null;
+  const elapsed = currentState.tick * GAME_TIMING.serverTickRate;
+  return Math.floor(Math.max(0, GAME_TIMING.roundDurationMs - elapsed) / 1000);
+};
+
+const selectPlayers = ({ currentState }: GameStateSnapshot) => currentState?.players;
+
+function RoundTimer({ game }: { game: ExternalStore<GameStateSnapshot> }) {
+  const seconds = useStoreSelector(game, selectSecondsLeft);
+  if (seconds === null) return null;
+  const mm = String(Math.floor(seconds / 60)).padStart(2, "0");
+  const ss = String(seconds % 60).padStart(2, "0");
+  return (
+    <div
+      className="px-2.5 py-1 rounded-md text-xs font-semibold"
+      style={{
+        background: "rgba(15,23,42,0.06)",
+        color: "var(--foreground)",
+      }}
+      title="Time left in the round"
+    >
+      Round&nbsp;
+      <span className="text-[var(--accent)]">
+        {mm}:{ss}
+      </span>
+    </div>
+  );
+}
+
+// Таймер раунда и игроки по очкам; ре-рендер только при смене очков или секунды таймера
+export function Leaderboard({ game, highlightedId }: LeaderboardProps) {
+  const players = useStoreSelector(game, selectPlayers);
+
+  return (
+    <>
+      <h2 className="text-xl font-bold mb-4 border-b border-[var(--accent)]/50 text-[var(--accent)] pb-2 tracking-wide">
+        Leaderboard
+      </h2>
+      <RoundTimer game={game} />
+      <div className="flex flex-col gap-1">
+        {players &&
+          Object.entries(players)
+            .sort(([, a], [, b]) => b.score - a.score)
+            .map(([id, player], index) => (
+              <div
+                key={id}
+                className={`flex justify-between items-center p-2 rounded-lg transition duration-150 text-sm ${id === highlightedId
+                  ? "bg-[var(--accent)]/10 border border-[var(--accent)]/30 shadow-inner"
+                  : "hover:bg-gray-100"
+                  }`}
+              >
+                <span
+                  className={`font-semibold truncate ${id === highlightedId
+                    ? "text-[var(--accent)] font-bold"
+                    : "text-foreground"
+                    }`}
+                >
+                  {index + 1}. {player.nickname}
+                </span>
+                <span className="font-mono text-base text-[var(--accent)] font-bold">
+                  {player.score}
+                </span>
+              </div>
+            ))}
+      </div>
+    </>
+  );
+}
@@ -3,34 +3,34 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { List, RefreshCw } from "lucide-react";
+import { Eye, List, RefreshCw } from "lucide-react";
 
+import { getSession } from "@/features/game/lib/session/SessionManager";
+import { getGameTransport } from "@/features/game/lib/transport";
+import type { GameTransport } from "@/features/game/lib/transport/types";
 import type { GameModeKey, LobbySummary } from "@/features/game/types";
 
 interface LobbyListButtonProps {
   mode: GameModeKey;
+  transport?: GameTransport;
 }
 
 type FetchState = "idle" | "loading";
 
-export function LobbyListButton({ mode }: LobbyListButtonProps) {
+export function LobbyListButton({ mode, transport: transportOverride }: LobbyListButtonProps) {
   const router = useRouter();
+  const transport = transportOverride ?? getGameTransport();
+  const session = getSession(transport);
   const [isOpen, setIsOpen] = useState(false);
   const [lobbies, setLobbies] = useState<LobbySummary[]>([]);
   const [fetchState, setFetchState] = useState<FetchState>("idle");
   const [joiningLobbyId, setJoiningLobbyId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const transportParam = transport.kind === "loopback" ? "&transport=loopback" : "";
 
   const loadLobbies = useCallback(async () => {
-    const baseUrl = process.env.NEXT_PUBLIC_API_URL;
-    if (!baseUrl) {
-      setError("API url is not configured.");
-      setLobbies([]);
-      return;
-    }
-    const token = localStorage.getItem("slize_token");
-    if (!token) {
+    if (!session.current) {
       setError("Play once to unlock lobby browser.");
       setLobbies([]);
       return;
@@ -39,38 +39,18 @@ export function LobbyListButton({ mode }: LobbyListButtonProps) {
     setFetchState("loading");
     setError(null);
     try {
-      const response = await fetch(`${baseUrl}/lobbies?mode=${mode}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!response.ok) {
-        let message = "Failed to load lobbies.";
-        try {
-          const data = await response.json();
-          if (typeof data?.error === "string") message = data.error;
-        } catch {
-          /* ignore */
-        }
-        throw new Error(message);
-      }
-      const data = (await response.json()) as { lobbies?: LobbySummary[] };
-      setLobbies(data.lobbies ?? []);
+      setLobbies(await session.withToken((token) => transport.listLobbies(mode, token)));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load lobbies.");
       setLobbies([]);
     } finally {
       setFetchState("idle");
     }
-  }, [mode]);
+  }, [mode, session, transport]);
 
   const handleJoin = useCallback(
     async (lobbyId: string) => {
-      const baseUrl = process.env.NEXT_PUBLIC_API_URL;
-      const token = localStorage.getItem("slize_token");
-      if (!baseUrl) {
-        setError("API url is not configured.");
-        return;
-      }
-      if (!token) {
+      if (!session.current) {
         setError("Sign in before joining a lobby.");
         return;
       }
@@ -78,38 +58,26 @@ export function LobbyListButton({ mode }: LobbyListButtonProps) {
       setJoiningLobbyId(lobbyId);
       setError(null);
       try {
-        const response = await fetch(`${baseUrl}/lobbies/join`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ lobbyId }),
-        });
-        if (!response.ok) {
-          let message = "Failed to join lobby.";
-          try {
-            const data = await response.json();
-            if (typeof data?.error === "string") message = data.error;
-          } catch {
-            /* ignore */
-          }
-          throw new Error(message);
-        }
-
-        const { lobbyId: resolvedLobbyId } = (await response.json()) as {
-          lobbyId: string;
-        };
+        const { lobbyId: resolvedLobbyId } = await session.withToken((token) => transport.joinLobby(lobbyId, token));
 
         setIsOpen(false);
-        router.push(`/main/play?mode=${mode}&lobby=${resolvedLobbyId}`);
+        router.push(`/main/play?mode=${mode}&lobby=${resolvedLobbyId}${transportParam}`);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to join lobby.");
       } finally {
         setJoiningLobbyId(null);
       }
     },
-    [mode, router],
+    [mode, router, session, transport, transportParam],
+  );
+
+  // Наблюдение не занимает слот, поэтому доступно и для заполненных лобби
+  const handleWatch = useCallback(
+    (lobbyId: string) => {
+      setIsOpen(false);
+      router.push(`/main/play?mode=${mode}&lobby=${lobbyId}&spectate=1${transportParam}`);
+    },
+    [mode, router, transportParam],
   );
 
   useEffect(() => {
@@ -197,11 +165,20 @@ export function LobbyListButton({ mode }: LobbyListButtonProps) {
                           {lobby.playerCount}/{lobby.maxPlayers} players
                         </p>
                       </div>
+                      <button
+                        type="button"
+                        onClick={() => handleWatch(lobby.id)}
+                        className="ml-auto inline-flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-600 transition hover:border-[var(--accent)] hover:text-[var(--accent)]"
+                        title="Watch without taking a slot"
+                      >
+                        <Eye className="h-3.5 w-3.5" strokeWidth={2.2} />
+                        Watch
+                      </button>
                       <button
                         type="button"
                         onClick={() => handleJoin(lobby.id)}
                         disabled={isFull || isJoining}
-                        className="ml-auto inline-flex items-center rounded-lg bg-[var(--accent)] px-3 py-1 text-xs font-semibold text-white shadow transition hover:bg-[var(--accent-hover)] disabled:cursor-not-allowed disabled:bg-slate-300"
+                        className="inline-flex items-center rounded-lg bg-[var(--accent)] px-3 py-1 text-xs font-semibold text-white shadow transition hover:bg-[var(--accent-hover)] disabled:cursor-not-allowed disabled:bg-slate-300"
                       >
                         {isFull ? "Full" : isJoining ? "Joining…" : "Join"}
                       </button>
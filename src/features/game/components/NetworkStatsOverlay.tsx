@@ -0,0 +1,53 @@
+"use client";
+
+import type { InputStatsSnapshot } from '@/features/game/lib/client/inputSequencer';
+import type { NetworkStatsSnapshot } from '@/features/game/lib/client/networkStats';
+import { serverClock } from '@/features/game/lib/client/serverClock';
+
+interface NetworkStatsOverlayProps {
+  stats: NetworkStatsSnapshot;
+  bufferUnderruns: number;
+  inputStats: InputStatsSnapshot;
+}
+
+const formatMs = (value: number | null) => (value === null ? '—' : `${Math.round(value)} ms`);
+const formatPct = (value: number) => `${value.toFixed(1)}%`;
+
+// Цвет RTT: зелёный/жёлтый/красный — чтобы игрок сразу видел, плохо ли всё
+const rttTone = (rtt: number | null) => {
+  if (rtt === null) return 'text-slate-400';
+  if (rtt < 80) return 'text-emerald-600';
+  if (rtt < 180) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+export function NetworkStatsOverlay({ stats, bufferUnderruns, inputStats }: NetworkStatsOverlayProps) {
+  const rows: [string, string][] = [
+    ['RTT min / max', `${formatMs(stats.rttMinMs)} / ${formatMs(stats.rttMaxMs)}`],
+    ['Jitter', formatMs(stats.jitterMs)],
+    ['Ping loss', `${formatPct(stats.pingLossPct)} (${stats.pingsLost}/${stats.pingsSent})`],
+    ['Tick loss', formatPct(stats.tickLossPct)],
+    ['Tick gaps', `${stats.tickGaps} (${stats.missedTicks} ticks)`],
+    ['Buffer underruns', String(bufferUnderruns)],
+    ['Clock offset', serverClock.isSynced() ? `${Math.round(serverClock.getOffset())} ms` : '—'],
+    ['Last tick', stats.lastTick === null ? '—' : String(stats.lastTick)],
+    // Без input_ack сервер ничего не подтверждает — считать опоздания не из чего
+    ['Inputs late / dropped', inputStats.acksSupported ? `${inputStats.late} / ${inputStats.dropped}` : '—'],
+    ['Inputs resent / pending', `${inputStats.resent} / ${inputStats.pending}`],
+  ];
+
+  return (
+    <div className="mb-4 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 font-mono text-[11px] text-slate-600">
+      <div className="mb-1 flex items-center justify-between">
+        <span className="uppercase tracking-[0.2em] text-slate-400">Network</span>
+        <span className={`text-sm font-bold ${rttTone(stats.rttMs)}`}>{formatMs(stats.rttMs)}</span>
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-3">
+          <span>{label}</span>
+          <span className="text-slate-800">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
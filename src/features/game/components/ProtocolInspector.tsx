@@ -0,0 +1,182 @@
+// src/features/game/components/ProtocolInspector.tsx
+"use client";
+
+import { useMemo, useState, useSyncExternalStore } from "react";
+import { Download, Trash2, X } from "lucide-react";
+
+import type { FrameDirection, ProtocolFrame, ProtocolLog } from "@/features/game/lib/client/protocolLog";
+
+interface ProtocolInspectorProps {
+  log: ProtocolLog;
+}
+
+type DirectionFilter = "all" | FrameDirection;
+
+// Для списка хватает последних кадров; экспорт берёт весь журнал
+const VISIBLE_FRAMES = 200;
+
+const formatBytes = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+const formatTime = (time: number) => {
+  const date = new Date(time);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, "0")}`;
+};
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Панель разработчика с кадрами сокета лобби; включается ?inspect=1 на /main/play
+export function ProtocolInspector({ log }: ProtocolInspectorProps) {
+  const frames = useSyncExternalStore(log.subscribe, log.getSnapshot, log.getSnapshot);
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [direction, setDirection] = useState<DirectionFilter>("all");
+  const [onlyRejected, setOnlyRejected] = useState(false);
+  const [selected, setSelected] = useState<ProtocolFrame | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+
+  const types = useMemo(() => Array.from(new Set(frames.map((frame) => frame.type))).sort(), [frames]);
+
+  const totals = useMemo(() => {
+    let rejected = 0;
+    let decodeTotal = 0;
+    let decoded = 0;
+    for (const frame of frames) {
+      if (frame.rejection) rejected += 1;
+      if (frame.decodeMs !== null) {
+        decodeTotal += frame.decodeMs;
+        decoded += 1;
+      }
+    }
+    return { rejected, avgDecodeMs: decoded ? decodeTotal / decoded : null };
+  }, [frames]);
+
+  const visible = useMemo(() => {
+    const filtered = frames.filter(
+      (frame) =>
+        (typeFilter === "all" || frame.type === typeFilter) &&
+        (direction === "all" || frame.direction === direction) &&
+        (!onlyRejected || frame.rejection !== null),
+    );
+    return filtered.slice(-VISIBLE_FRAMES).reverse();
+  }, [direction, frames, onlyRejected, typeFilter]);
+
+  if (collapsed) {
+    return (
+      <button
+        type="button"
+        onClick={() => setCollapsed(false)}
+        className="fixed bottom-4 left-4 z-40 rounded-lg border border-slate-300 bg-white px-3 py-1.5 font-mono text-[11px] text-slate-600 shadow"
+      >
+        Protocol · {frames.length} frames{totals.rejected ? ` · ${totals.rejected} rejected` : ""}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 flex max-h-[60vh] w-[520px] max-w-[calc(100vw-2rem)] flex-col rounded-lg border border-slate-300 bg-white font-mono text-[11px] text-slate-600 shadow-lg">
+      <div className="flex items-center gap-2 border-b border-slate-200 px-3 py-2">
+        <span className="uppercase tracking-[0.2em] text-slate-400">Protocol</span>
+        <span>{frames.length} frames</span>
+        <span className={totals.rejected ? "text-red-600" : ""}>{totals.rejected} rejected</span>
+        <span>
+          decode {totals.avgDecodeMs === null ? "—" : `${totals.avgDecodeMs.toFixed(2)} ms`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => downloadJson(log.toJSON(), `slize-protocol-${Date.now()}.json`)}
+            className="rounded p-1 text-slate-500 hover:bg-slate-100 hover:text-[var(--accent)]"
+            title="Export as JSON"
+          >
+            <Download className="h-4 w-4" strokeWidth={2.2} />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              log.clear();
+              setSelected(null);
+            }}
+            className="rounded p-1 text-slate-500 hover:bg-slate-100 hover:text-red-600"
+            title="Clear"
+          >
+            <Trash2 className="h-4 w-4" strokeWidth={2.2} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setCollapsed(true)}
+            className="rounded p-1 text-slate-500 hover:bg-slate-100"
+            title="Collapse"
+          >
+            <X className="h-4 w-4" strokeWidth={2.2} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 border-b border-slate-200 px-3 py-1.5">
+        <select
+          value={typeFilter}
+          onChange={(event) => setTypeFilter(event.target.value)}
+          className="rounded border border-slate-200 bg-white px-1 py-0.5"
+        >
+          <option value="all">all types</option>
+          {types.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <select
+          value={direction}
+          onChange={(event) => setDirection(event.target.value as DirectionFilter)}
+          className="rounded border border-slate-200 bg-white px-1 py-0.5"
+        >
+          <option value="all">in + out</option>
+          <option value="in">in</option>
+          <option value="out">out</option>
+        </select>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={onlyRejected} onChange={(event) => setOnlyRejected(event.target.checked)} />
+          rejected only
+        </label>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {visible.map((frame) => (
+          <button
+            key={frame.id}
+            type="button"
+            onClick={() => setSelected(frame)}
+            className={`flex w-full items-center gap-2 px-3 py-0.5 text-left hover:bg-slate-50 ${selected?.id === frame.id ? "bg-slate-100" : ""
+              } ${frame.rejection ? "text-red-600" : ""}`}
+          >
+            <span className="text-slate-400">{formatTime(frame.time)}</span>
+            <span className={frame.direction === "in" ? "text-emerald-600" : "text-sky-600"}>
+              {frame.direction === "in" ? "↓" : "↑"}
+            </span>
+            <span className="truncate">{frame.type}</span>
+            <span className="ml-auto shrink-0">{formatBytes(frame.bytes)}</span>
+            <span className="w-16 shrink-0 text-right text-slate-400">
+              {frame.decodeMs === null ? "" : `${frame.decodeMs.toFixed(2)} ms`}
+            </span>
+          </button>
+        ))}
+        {!visible.length && <div className="px-3 py-2 text-slate-400">No frames yet.</div>}
+      </div>
+
+      {selected && (
+        <div className="max-h-40 overflow-y-auto border-t border-slate-200 px-3 py-2">
+          {selected.rejection && <div className="mb-1 font-bold text-red-600">{selected.rejection}</div>}
+          <pre className="whitespace-pre-wrap break-all text-slate-800">{selected.preview}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
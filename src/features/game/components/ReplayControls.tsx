@@ -0,0 +1,108 @@
+// src/features/game/components/ReplayControls.tsx
+"use client";
+
+import { Pause, Play, SkipBack, SkipForward } from "lucide-react";
+
+import {
+  REPLAY_SPEEDS,
+  type ReplayPlaybackState,
+  type ReplayPlayer,
+  type ReplaySpeed,
+} from "@/features/game/lib/replay/ReplayPlayer";
+
+interface ReplayControlsProps {
+  player: ReplayPlayer;
+  playback: ReplayPlaybackState;
+}
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+export function ReplayControls({ player, playback }: ReplayControlsProps) {
+  const { frames, durationMs } = player.timeline;
+  const frame = frames[playback.frameIndex];
+  const lastIndex = Math.max(0, frames.length - 1);
+
+  const iconButton =
+    "inline-flex h-9 w-9 items-center justify-center rounded-full border border-gray-200 bg-white text-gray-600 transition hover:border-[var(--accent)] hover:text-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-40";
+
+  return (
+    <div className="w-full rounded-xl border border-gray-200 bg-white p-4 shadow-lg">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => player.step(-1)}
+          disabled={playback.frameIndex === 0}
+          className={iconButton}
+          title="Previous tick (←)"
+        >
+          <SkipBack className="h-4 w-4" strokeWidth={2.2} />
+        </button>
+        <button
+          type="button"
+          onClick={() => player.toggle()}
+          className="inline-flex h-11 w-11 items-center justify-center rounded-full bg-[var(--accent)] text-white shadow transition hover:bg-[var(--accent-hover)]"
+          title={playback.playing ? "Pause (space)" : "Play (space)"}
+        >
+          {playback.playing ? (
+            <Pause className="h-5 w-5" strokeWidth={2.4} />
+          ) : (
+            <Play className="h-5 w-5" strokeWidth={2.4} />
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={() => player.step(1)}
+          disabled={playback.frameIndex >= lastIndex}
+          className={iconButton}
+          title="Next tick (→)"
+        >
+          <SkipForward className="h-4 w-4" strokeWidth={2.2} />
+        </button>
+
+        <div className="ml-auto flex items-center gap-1 rounded-full bg-slate-100 p-1">
+          {REPLAY_SPEEDS.map((speed: ReplaySpeed) => (
+            <button
+              key={speed}
+              type="button"
+              onClick={() => player.setSpeed(speed)}
+              className={`rounded-full px-2.5 py-1 text-xs font-semibold transition ${playback.speed === speed
+                ? "bg-white text-[var(--accent)] shadow"
+                : "text-slate-500 hover:text-slate-800"
+                }`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={lastIndex}
+        step={1}
+        value={playback.frameIndex}
+        onChange={(e) => player.seek(Number(e.target.value))}
+        className="mt-4 w-full accent-[var(--accent)]"
+        aria-label="Timeline"
+      />
+
+      <div className="mt-1 flex justify-between font-mono text-[11px] text-slate-500">
+        <span>
+          {formatClock(frame?.at ?? 0)} / {formatClock(durationMs)}
+        </span>
+        <span>
+          {frame?.round ? `Round ${frame.round + 1} · ` : ""}
+          Tick {frame?.tick ?? 0}
+          {frame?.gameOver ? " · game over" : ""}
+        </span>
+        <span>
+          {playback.frameIndex + 1} / {frames.length}
+        </span>
+      </div>
+    </div>
+  );
+}
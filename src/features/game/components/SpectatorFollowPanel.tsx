@@ -0,0 +1,49 @@
+// src/features/game/components/SpectatorFollowPanel.tsx
+"use client";
+
+import { Crown, Eye } from "lucide-react";
+
+import type { GameStateSnapshot } from "@/features/game/lib/sdk/GameStateModel";
+import { useStoreSelector, type ExternalStore } from "@/features/game/hooks/useStoreSelector";
+
+interface SpectatorFollowPanelProps {
+  game: ExternalStore<GameStateSnapshot>;
+  // null — следим за лидером
+  followedId: string | null;
+  onFollow: (playerId: string | null) => void;
+}
+
+const selectPlayers = ({ currentState }: GameStateSnapshot) => currentState?.players;
+
+export function SpectatorFollowPanel({ game, followedId, onFollow }: SpectatorFollowPanelProps) {
+  const players = useStoreSelector(game, selectPlayers);
+  const ranked = Object.entries(players ?? {}).sort(([, a], [, b]) => b.score - a.score);
+
+  const rowClass = (active: boolean) =>
+    `flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-sm transition ${active
+      ? "bg-[var(--accent)]/10 border border-[var(--accent)]/30 font-bold text-[var(--accent)]"
+      : "border border-transparent text-gray-700 hover:bg-gray-100"
+      }`;
+
+  return (
+    <div className="w-full p-4 rounded-xl shadow-lg border border-gray-200 bg-card-bg mt-4">
+      <h3 className="mb-3 flex items-center justify-center gap-2 text-lg font-bold tracking-wide text-[var(--accent)]">
+        <Eye className="h-5 w-5" strokeWidth={2.2} />
+        Spectating
+      </h3>
+
+      <div className="flex flex-col gap-1">
+        <button type="button" onClick={() => onFollow(null)} className={rowClass(followedId === null)}>
+          <Crown className="h-4 w-4 shrink-0" strokeWidth={2.2} />
+          Follow the leader
+        </button>
+        {ranked.map(([id, player]) => (
+          <button key={id} type="button" onClick={() => onFollow(id)} className={rowClass(followedId === id)}>
+            <span className="truncate">{player.nickname}</span>
+            <span className="ml-auto font-mono text-xs">{player.score}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
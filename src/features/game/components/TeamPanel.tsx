@@ -1,19 +1,53 @@
 "use client";
-import type { GameState, TeamId } from '@/features/game/types';
+import type { PlayerInfo, TeamId, TeamState } from '@/features/game/types';
 import { COLORS } from '@/features/game/config';
+import type { GameStateSnapshot } from '@/features/game/lib/sdk/GameStateModel';
+import { useStoreSelector, type ExternalStore } from '@/features/game/hooks/useStoreSelector';
 
 interface TeamPanelProps {
-    currentState: GameState;
+    game: ExternalStore<GameStateSnapshot>;
     playerId: string | null;
-    onSwitchTeam: (teamId: TeamId) => void;
+    // Без обработчика (наблюдатель) кнопки смены команды не показываются
+    onSwitchTeam?: (teamId: TeamId) => void;
 }
 
-export function TeamPanel({ currentState, playerId, onSwitchTeam }: TeamPanelProps) {
-    if (!currentState.teams || currentState.mode !== 'team_battle') {
+interface TeamsSlice {
+    teams: TeamState[] | null;
+    players: Record<string, PlayerInfo>;
+}
+
+const NO_PLAYERS: Record<string, PlayerInfo> = {};
+
+const selectTeams = ({ currentState }: GameStateSnapshot): TeamsSlice => ({
+    teams: currentState?.mode === 'team_battle' ? currentState.teams ?? null : null,
+    players: currentState?.players ?? NO_PLAYERS,
+});
+
+// Команды приходят новым массивом каждый тик — сравниваем по содержимому
+const sameTeams = (a: TeamState[] | null, b: TeamState[] | null) =>
+    a === b ||
+    (a !== null &&
+        b !== null &&
+        a.length === b.length &&
+        a.every((team, index) => {
+            const other = b[index];
+            return (
+                team.id === other.id &&
+                team.score === other.score &&
+                team.displayName === other.displayName &&
+                team.playerIds.join() === other.playerIds.join()
+            );
+        }));
+
+const sameTeamsSlice = (a: TeamsSlice, b: TeamsSlice) => a.players === b.players && sameTeams(a.teams, b.teams);
+
+export function TeamPanel({ game, playerId, onSwitchTeam }: TeamPanelProps) {
+    const { teams, players } = useStoreSelector(game, selectTeams, sameTeamsSlice);
+    if (!teams) {
         return null;
     }
 
-    const myPlayer = playerId ? currentState.players[playerId] : null;
+    const myPlayer = playerId ? players[playerId] : null;
     const myTeamId = myPlayer?.teamId;
 
     return (
@@ -35,7 +69,7 @@ export function TeamPanel({ currentState, playerId, onSwitchTeam }: TeamPanelPro
                 Teams
             </h2>
             <div className="flex flex-col gap-4">
-                {currentState.teams.map((team) => {
+                {teams.map((team) => {
                     const isMyTeam = team.id === myTeamId;
                     const teamColor = team.id === 'alpha'
                         ? COLORS.snakes.teamAlpha
@@ -62,7 +96,7 @@ export function TeamPanel({ currentState, playerId, onSwitchTeam }: TeamPanelPro
 
                             <ul className="flex flex-col gap-1 mb-3">
                                 {team.playerIds.map((pid) => {
-                                    const player = currentState.players[pid];
+                                    const player = players[pid];
                                     if (!player) return null;
                                     const isMe = pid === playerId;
                                     return (
@@ -79,7 +113,7 @@ export function TeamPanel({ currentState, playerId, onSwitchTeam }: TeamPanelPro
                                 })}
                             </ul>
 
-                            {!isMyTeam && (
+                            {onSwitchTeam && !isMyTeam && (
                                 <button
                                     onClick={() => onSwitchTeam(team.id)}
                                     className="w-full text-sm px-3 py-1 rounded font-semibold text-white transition hover:opacity-90 active:scale-[.98]"
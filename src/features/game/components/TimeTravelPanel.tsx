@@ -0,0 +1,152 @@
+// src/features/game/components/TimeTravelPanel.tsx
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { History, Pause, Play, SkipBack, SkipForward, X } from "lucide-react";
+
+import type { HistoryScrubber } from "@/features/game/lib/replay/HistoryScrubber";
+import type { HistoryEvent } from "@/features/game/lib/sdk/StateHistory";
+
+interface TimeTravelPanelProps {
+  scrubber: HistoryScrubber;
+}
+
+const PAYLOAD_PREVIEW_CHARS = 120;
+
+const describeEvent = ({ message }: HistoryEvent) => {
+  const payload = JSON.stringify(message.payload);
+  return payload.length > PAYLOAD_PREVIEW_CHARS ? `${payload.slice(0, PAYLOAD_PREVIEW_CHARS)}…` : payload;
+};
+
+// Панель разработчика: пауза замораживает холст, дальше листаем последние сотни тиков
+// и смотрим, что пришло между ними. В продакшен-сборке не рендерится
+export function TimeTravelPanel({ scrubber }: TimeTravelPanelProps) {
+  const { paused, index, entries } = useSyncExternalStore(scrubber.subscribe, scrubber.getSnapshot, scrubber.getSnapshot);
+  const [collapsed, setCollapsed] = useState(true);
+
+  // Стрелки листают тики только на паузе — в игре они управляют змейкой
+  useEffect(() => {
+    if (!paused) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        scrubber.step(event.key === "ArrowLeft" ? -1 : 1);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown, { capture: true });
+    return () => window.removeEventListener("keydown", onKeyDown, { capture: true });
+  }, [paused, scrubber]);
+
+  if (collapsed) {
+    return (
+      <button
+        type="button"
+        onClick={() => setCollapsed(false)}
+        className="fixed bottom-4 right-4 z-40 inline-flex items-center gap-1.5 rounded-lg border border-slate-300 bg-white px-3 py-1.5 font-mono text-[11px] text-slate-600 shadow"
+      >
+        <History className="h-3.5 w-3.5" strokeWidth={2.2} />
+        Time travel{paused ? " · paused" : ""}
+      </button>
+    );
+  }
+
+  const entry = entries[index];
+  const newest = entries[entries.length - 1];
+  const lastIndex = Math.max(0, entries.length - 1);
+  const iconButton =
+    "rounded p-1 text-slate-500 hover:bg-slate-100 hover:text-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-40";
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex max-h-[60vh] w-[420px] max-w-[calc(100vw-2rem)] flex-col rounded-lg border border-slate-300 bg-white font-mono text-[11px] text-slate-600 shadow-lg">
+      <div className="flex items-center gap-2 border-b border-slate-200 px-3 py-2">
+        <span className="uppercase tracking-[0.2em] text-slate-400">Time travel</span>
+        {paused && entry ? (
+          <span>
+            tick {entry.state.tick} · {((entry.receivedAt - newest.receivedAt) / 1000).toFixed(2)} s
+          </span>
+        ) : (
+          <span className="text-emerald-600">live</span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => scrubber.step(-1)}
+            disabled={paused && index === 0}
+            className={iconButton}
+            title="Previous tick (←)"
+          >
+            <SkipBack className="h-4 w-4" strokeWidth={2.2} />
+          </button>
+          <button
+            type="button"
+            onClick={() => scrubber.toggle()}
+            className={iconButton}
+            title={paused ? "Back to live" : "Pause the view"}
+          >
+            {paused ? <Play className="h-4 w-4" strokeWidth={2.2} /> : <Pause className="h-4 w-4" strokeWidth={2.2} />}
+          </button>
+          <button
+            type="button"
+            onClick={() => scrubber.step(1)}
+            disabled={!paused || index >= lastIndex}
+            className={iconButton}
+            title="Next tick (→)"
+          >
+            <SkipForward className="h-4 w-4" strokeWidth={2.2} />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              scrubber.resume();
+              setCollapsed(true);
+            }}
+            className="rounded p-1 text-slate-500 hover:bg-slate-100"
+            title="Close and go live"
+          >
+            <X className="h-4 w-4" strokeWidth={2.2} />
+          </button>
+        </div>
+      </div>
+
+      {paused ? (
+        <>
+          <div className="border-b border-slate-200 px-3 py-2">
+            <input
+              type="range"
+              min={0}
+              max={lastIndex}
+              step={1}
+              value={index}
+              onChange={(e) => scrubber.seek(Number(e.target.value))}
+              className="w-full accent-[var(--accent)]"
+              aria-label="Recent ticks"
+            />
+            <div className="flex justify-between text-slate-400">
+              <span>tick {entries[0]?.state.tick ?? 0}</span>
+              <span>
+                {index + 1} / {entries.length}
+              </span>
+              <span>tick {newest?.state.tick ?? 0}</span>
+            </div>
+          </div>
+          <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2">
+            {entry?.events.length ? (
+              entry.events.map((event, eventIndex) => (
+                <div key={eventIndex} className="truncate py-0.5" title={JSON.stringify(event.message.payload)}>
+                  <span className="font-semibold text-slate-800">{event.message.type}</span> {describeEvent(event)}
+                </div>
+              ))
+            ) : (
+              <div className="text-slate-400">No messages between the previous tick and this one.</div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="px-3 py-2 text-slate-400">
+          Pause to freeze the canvas and step back through the last ticks.
+        </div>
+      )}
+    </div>
+  );
+}
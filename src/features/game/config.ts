@@ -15,6 +15,31 @@ export const GAME_TIMING = {
   roundDurationMs: 3 * 60 * 1000,
 } as const;
 
+// Буфер снапшотов для интерполяции: задержка отрисовки подстраивается под джиттер
+export const SNAPSHOT_BUFFER = {
+  minDelayMs: 60,
+  maxDelayMs: 450,
+  jitterMultiplier: 2,
+  capacity: 32,
+} as const;
+
+export const NETWORK_STATS = {
+  pingIntervalMs: 2_000,
+  pingTimeoutMs: 5_000,
+  windowSize: 30,
+  publishIntervalMs: 1_000,
+} as const;
+
+// Оценка смещения серверных часов по пингам
+export const CLOCK_SYNC = {
+  sampleWindow: 8,
+  burstCount: 5,
+  burstIntervalMs: 250,
+  // Расхождение больше этого применяем сразу, меньше — сглаживаем
+  stepThresholdMs: 250,
+  smoothing: 0.2,
+} as const;
+
 export const PROJECTILES = {
   spawnLead: 0.6,
   radiusRatio: 0.35,
@@ -22,11 +47,136 @@ export const PROJECTILES = {
 } as const;
 
 export const CLIENT_STATE = {
-  activeTabLockKey: 'slize_active_tab_lock',
   reconnectMaxDelayMs: 5_000,
   reconnectBaseDelayMs: 750,
   reconnectJitterMs: 250,
-  inputThrottleMs: 65,
+  silentReconnectBaseDelayMs: 200,
+  silentReconnectMaxDelayMs: 3_200,
+  // Сколько поворотов можно набрать наперёд; уходят по одному за тик сервера
+  turnQueueSize: 3,
+  // Дальше этого (в клетках) предсказанная голова не доводится плавно, а прыгает
+  predictionSnapDistance: 2,
+} as const;
+
+// Координация вкладок одного браузера: играет вкладка-лидер, остальные следят.
+// Лидер, молчащий дольше аренды, считается упавшим
+export const TABS = {
+  channelName: 'slize_tabs',
+  heartbeatIntervalMs: 1_000,
+  leaseMs: 3_500,
+  electionWindowMs: 250,
+  handoffTimeoutMs: 2_000,
+} as const;
+
+// Жизнь токена: обновляем за refreshLeewayMs до expiresAt, но не раньше minRefreshDelayMs
+export const SESSION = {
+  refreshLeewayMs: 60_000,
+  minRefreshDelayMs: 5_000,
+} as const;
+
+// Нумерованные вводы: неотправленные или неподтверждённые старше окна бросаем
+export const INPUTS = {
+  resendWindowMs: 1_000,
+  // Последние сыгранные seq, которые сервер помнит, чтобы не применять повтор дважды
+  serverAckMemory: 128,
+} as const;
+
+// Сабпротоколы сокета лобби в порядке предпочтения.
+// Если сервер не выбрал ни один, общаемся обычным JSON
+export const WIRE_PROTOCOLS = {
+  binary: 'slize.bin.v1',
+  json: 'slize.json.v1',
+} as const;
+
+// Авторизация сокета лобби: токен едет в сабпротоколе или первым кадром,
+// но не в URL (если не включён старый фолбэк через query)
+export const SOCKET_AUTH = {
+  protocolPrefix: 'slize.auth.',
+} as const;
+
+// Сервер в памяти для ?transport=loopback
+export const LOOPBACK = {
+  latencyMs: 15,
+  maxPlayers: 8,
+  seed: 0x5112e,
+  // Срок жизни выданного токена; по истечении сервер отвечает 401
+  tokenTtlMs: 30 * 60_000,
+} as const;
+
+// Правила клиентской симуляции (офлайн-игра и loopback-сервер)
+export const SIMULATION = {
+  gridSize: 32,
+  minGridSize: 20,
+  baseFood: 3,
+  startLength: 3,
+  respawnTicks: 10,
+  roundResetDelayMs: 5_000,
+  powerUpSlots: 3,
+  maxPowerUps: 3,
+  powerUpSpawnTicks: 40,
+  effectDurationMs: 5_000,
+  scoreBoostPoints: 5,
+  projectileSpeed: 2,
+  // Опасные блоки: сначала предупреждение, затем смертельная зона или стена
+  hazardSpawnTicks: 60,
+  hazardSize: 3,
+  hazardWarnTicks: 14,
+  hazardKillTicks: 20,
+  hazardSolidChance: 0.35,
+  // Сжатие арены
+  resizeEveryTicks: 400,
+  resizeStep: 4,
+  resizeWarnMs: 4_000,
+  resizeKillMs: 2_000,
+} as const;
+
+export const BOTS = {
+  maxPerMatch: 6,
+  lineupStorageKey: 'slize_bots',
+} as const;
+
+// Инспектор протокола для разработчиков (?inspect=1)
+export const INSPECTOR = {
+  maxEntries: 1_000,
+  previewChars: 200,
+  // Отвергнутые кадры храним целиком (почти) — они и нужны в баг-репорте
+  rejectedPreviewChars: 8_000,
+  publishIntervalMs: 250,
+} as const;
+
+// Запись матча (реплеи для скачивания)
+export const REPLAY = {
+  // Около получаса игры; после лимита запись останавливается (файл помечается truncated)
+  maxEvents: 20_000,
+  fileExtension: '.slzreplay',
+} as const;
+
+// Отладка перемоткой: последние собранные состояния, которые хранит модель игры
+export const STATE_HISTORY = {
+  // 200 тиков по 150 мс — последние полминуты игры
+  maxSnapshots: 200,
+  // Без кадров события всё равно копятся — держим их в пределах
+  maxPendingEvents: 256,
+} as const;
+
+// Лента убийств на /main/play
+export const KILL_FEED = {
+  maxEntries: 6,
+  entryTtlMs: 8_000,
+} as const;
+
+// Нагрузочный тест без браузера (npm run loadtest)
+export const LOAD_TEST = {
+  players: 10,
+  durationSec: 60,
+  // Пауза между подключениями игроков, чтобы не бить в /auth одной пачкой
+  rampUpMs: 200,
+  reportIntervalMs: 5_000,
+  nicknamePrefix: 'load',
+  // Для перцентилей декодирования храним последние N замеров на клиента
+  decodeSamples: 2_048,
+  // Шанс случайного поворота на каждом тике
+  randomTurnChance: 0.2,
 } as const;
 
 export const COLORS = {
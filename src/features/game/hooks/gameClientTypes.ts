@@ -1,12 +1,14 @@
-import type { GameModeKey, GameOverInfo, GameState, TeamId } from '@/features/game/types';
+import type { MutableRefObject } from 'react';
+
+import type { GameModeKey, GameOverInfo, TeamId } from '@/features/game/types';
 import type { VFX } from '@/features/game/canvas/types';
+import type { Direction } from '@/features/game/lib/client/direction';
+import type { InputStatsSnapshot } from '@/features/game/lib/client/inputSequencer';
+import type { NetworkStatsSnapshot } from '@/features/game/lib/client/networkStats';
+import type { ConnectionStatus } from '@/features/game/lib/connection/connectionMachine';
+import type { GameStateModel } from '@/features/game/lib/sdk/GameStateModel';
 
-export type ConnectionStatus =
-  | 'disconnected'
-  | 'authenticating'
-  | 'finding_lobby'
-  | 'connecting'
-  | 'connected';
+export type { ConnectionStatus };
 
 export interface GameClientResult {
   nickname: string;
@@ -16,22 +18,27 @@ export interface GameClientResult {
   status: ConnectionStatus;
   error: string | null;
   isLocked: boolean;
-  previousState: GameState | null;
-  currentState: GameState | null;
-  lastStateTimestamp: number;
   playerId: string | null;
+  // Живое состояние игры; читать через useStoreSelector, чтобы панель ре-рендерилась только по своему срезу
+  game: GameStateModel;
   gameOverInfo: GameOverInfo | null;
-  deadPlayerIds: Set<string>;
   vfx: VFX[];
+  lastSentDirectionRef: MutableRefObject<Direction | null>;
   lobbyId: string | null;
   lobbyName: string | null;
   handleConnect: () => Promise<void>;
   handleDisconnect: () => void;
   handleLeave: () => Promise<void>;
+  handlePlayHere: () => Promise<void>;
   handleSwitchTeam: (teamId: TeamId) => void;
   handleUsePowerUp: (slot: number) => void;
   isSilentlyReconnecting: boolean;
   authBlockedReason: 'nickname_in_use' | null;
   clearAuthBlock: () => void;
+  networkStats: NetworkStatsSnapshot;
+  inputStats: InputStatsSnapshot;
+  hasReplay: boolean;
+  saveReplay: () => Promise<void>;
+  isSpectating: boolean;
 }
 
@@ -1,79 +1,85 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
-import { CLIENT_STATE } from '@/features/game/config';
 import type { GameModeKey, TeamId } from '@/features/game/types';
-import { isOpposite, type Direction } from '@/features/game/lib/client/direction';
+import { BroadcastTabLock } from '@/features/game/lib/connection/tabLock';
+import { SlizeClient } from '@/features/game/lib/sdk/SlizeClient';
+import { getSession } from '@/features/game/lib/session/SessionManager';
+import { getGameTransport } from '@/features/game/lib/transport';
 import { useGameConnection } from '@/features/game/hooks/useGameConnection';
 import { useGameStateStore } from '@/features/game/hooks/useGameStateStore';
 import { useKeyboardControls } from '@/features/game/hooks/useKeyboardControls';
 import type { GameClientResult } from '@/features/game/hooks/gameClientTypes';
+import type { ProtocolLog } from '@/features/game/lib/client/protocolLog';
+import type { GameTransport } from '@/features/game/lib/transport/types';
+
+interface UseGameClientOptions {
+  transport?: GameTransport;
+  // Смотреть initialLobbyId, не играя
+  spectate?: boolean;
+  inspector?: ProtocolLog | null;
+  // false, пока страница не знает транспорт и роль; до этого клиент не вступает в выборы вкладок
+  ready?: boolean;
+}
+
+interface ClientEntry {
+  client: SlizeClient;
+  transport: GameTransport;
+  spectate: boolean;
+  inspector: ProtocolLog | null;
+}
 
 export function useGameClient(
   initialMode: GameModeKey = 'free_for_all',
   initialLobbyId: string | null = null,
+  { transport: transportOverride, spectate = false, inspector = null, ready = true }: UseGameClientOptions = {},
 ): GameClientResult {
   const [nickname, setNickname] = useState('');
   const [mode, setMode] = useState<GameModeKey>(initialMode);
-  const [playerId, setPlayerId] = useState<string | null>(null);
 
-  const {
-    previousState,
-    currentState,
-    lastStateTimestamp,
-    gameOverInfo,
-    deadPlayerIds,
-    vfx,
-    currentStateRef,
-    myCurrentDirectionRef,
-    lastSentDirectionRef,
-    handleStateMessage,
-    handlePlayerList,
-    handlePlayerJoined,
-    handlePlayerLeft,
-    handleScoreUpdate,
-    handlePowerupUpdate,
-    handleGameOver,
-    handlePlayerDied,
-    resetState,
-  } = useGameStateStore({ playerId });
+  const transport = transportOverride ?? getGameTransport();
+  // Страница узнаёт транспорт и роль из URL уже после монтирования — тогда клиент пересоздаём.
+  // Не useMemo: React вправе его пересчитать. Сам конструктор побочных эффектов не имеет,
+  // а прежний клиент закрывает очистка эффекта в useGameConnection.
+  const entryRef = useRef<ClientEntry | null>(null);
+  let entry = entryRef.current;
+  if (!entry || entry.transport !== transport || entry.spectate !== spectate || entry.inspector !== inspector) {
+    entry = {
+      client: new SlizeClient({
+        transport,
+        spectate,
+        session: getSession(transport),
+        tabLock: new BroadcastTabLock(),
+        inspector,
+      }),
+      transport,
+      spectate,
+      inspector,
+    };
+    entryRef.current = entry;
+  }
+  const { client } = entry;
 
   const {
     status,
     error,
     isLocked,
     isSilentlyReconnecting,
-    playerId: resolvedPlayerId,
+    playerId,
     lobbyId,
     lobbyName,
-    sendMessage,
     handleConnect,
     handleDisconnect,
     handleLeave,
+    handlePlayHere,
     authBlockedReason,
     clearAuthBlock,
-  } = useGameConnection({
-    nickname,
-    mode,
-    callbacks: {
-      onStateMessage: handleStateMessage,
-      onGameOver: handleGameOver,
-      onPlayerDied: handlePlayerDied,
-      onPlayerList: handlePlayerList,
-      onPlayerJoined: handlePlayerJoined,
-      onPlayerLeft: handlePlayerLeft,
-      onScoreUpdate: handleScoreUpdate,
-      onPowerupUpdate: handlePowerupUpdate,
-    },
-    resetState,
-    onPlayerIdChange: setPlayerId,
-    initialLobbyId,
-  });
+    networkStats,
+    inputStats,
+    hasReplay,
+    saveReplay,
+  } = useGameConnection({ client, nickname, mode, initialLobbyId, attached: ready });
 
-  useEffect(() => {
-    if (resolvedPlayerId && resolvedPlayerId !== playerId) {
-      setPlayerId(resolvedPlayerId);
-    }
-  }, [playerId, resolvedPlayerId]);
+  const { game, gameOverInfo, vfx } = useGameStateStore({ client, playerId });
 
   useEffect(() => {
     if (initialMode && initialMode !== mode) {
@@ -81,72 +87,21 @@ export function useGameClient(
     }
   }, [initialMode, mode]);
 
-  const latestDirectionInputRef = useRef<Direction | null>(null);
-  const lastTurnSentAtRef = useRef(0);
-  const animationFrameId = useRef<number | null>(null);
-
   const handleUsePowerUp = useCallback(
-    (slot: number) => {
-      const activePlayerId = playerId;
-      if (!activePlayerId) return;
-      const state = currentStateRef.current;
-      if (!state) return;
-      const me = state.players[activePlayerId];
-      if (!me?.powerUpSlots[slot]) return;
-      sendMessage({ action: 'use_powerup', slot });
-    },
-    [currentStateRef, playerId, sendMessage],
+    (slot: number) => void client.dispatch({ type: 'use_powerup', slot }),
+    [client],
   );
 
   const handleSwitchTeam = useCallback(
-    (teamId: TeamId) => {
-      sendMessage({ action: 'switch_team', teamId });
-    },
-    [sendMessage],
+    (teamId: TeamId) => void client.dispatch({ type: 'switch_team', teamId }),
+    [client],
   );
 
   useKeyboardControls({
-    onDirection: (direction) => {
-      latestDirectionInputRef.current = direction;
-    },
+    onDirection: (direction) => void client.dispatch({ type: 'turn', direction }),
     onUsePowerUp: handleUsePowerUp,
   });
 
-  const gameLoop = useCallback(() => {
-    const latestInput = latestDirectionInputRef.current;
-    const actualDirection = myCurrentDirectionRef.current;
-
-    // Check if we need to send an update
-    const needsToSend = latestInput && (
-      // 1. Standard turn: Input is different from server state
-      (actualDirection && latestInput !== actualDirection && !isOpposite(actualDirection, latestInput)) ||
-      // 2. Break lock: Input is different from what we *last sent*
-      (latestInput !== lastSentDirectionRef.current)
-    );
-
-    if (needsToSend) {
-      const now = performance.now();
-      if (now - lastTurnSentAtRef.current > CLIENT_STATE.inputThrottleMs) {
-        sendMessage({ action: 'turn', direction: latestInput });
-        lastTurnSentAtRef.current = now;
-        lastSentDirectionRef.current = latestInput;
-      }
-    }
-
-    animationFrameId.current = requestAnimationFrame(gameLoop);
-  }, [lastSentDirectionRef, myCurrentDirectionRef, sendMessage]);
-
-  useEffect(() => {
-    if (status === 'connected') {
-      animationFrameId.current = requestAnimationFrame(gameLoop);
-    }
-    return () => {
-      if (animationFrameId.current) {
-        cancelAnimationFrame(animationFrameId.current);
-      }
-    };
-  }, [gameLoop, status]);
-
   useEffect(() => {
     const savedNickname = localStorage.getItem('slize_nickname');
     if (savedNickname) {
@@ -164,21 +119,25 @@ export function useGameClient(
     status,
     error,
     isLocked,
-    previousState,
-    currentState,
-    lastStateTimestamp,
     playerId,
+    game,
     gameOverInfo,
-    deadPlayerIds,
     vfx,
+    lastSentDirectionRef: client.lastSentDirection,
     handleConnect,
     handleDisconnect,
     handleLeave,
+    handlePlayHere,
     handleSwitchTeam,
     handleUsePowerUp,
     isSilentlyReconnecting,
     authBlockedReason,
     clearAuthBlock,
+    networkStats,
+    inputStats,
+    hasReplay,
+    saveReplay,
+    isSpectating: spectate,
   };
 }
 
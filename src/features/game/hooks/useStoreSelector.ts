@@ -0,0 +1,28 @@
+import { useRef, useSyncExternalStore } from 'react';
+
+// Всё в форме useSyncExternalStore: GameStateModel, ConnectionController, ReplayPlayer
+export interface ExternalStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => T;
+}
+
+// Подписка на срез внешнего стора. Ре-рендер только если isEqual говорит, что срез изменился,
+// так что селектор может собирать новый объект — лишь бы сравнение ему подходило
+export function useStoreSelector<T, S>(
+  store: ExternalStore<T>,
+  selector: (snapshot: T) => S,
+  isEqual: (a: S, b: S) => boolean = Object.is,
+): S {
+  const selectionRef = useRef<{ value: S } | null>(null);
+
+  // Селектор пересчитываем всегда: он может зависеть от пропсов, а не только от снимка
+  const getSelection = () => {
+    const next = selector(store.getSnapshot());
+    const previous = selectionRef.current;
+    if (previous && isEqual(previous.value, next)) return previous.value;
+    selectionRef.current = { value: next };
+    return next;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+}
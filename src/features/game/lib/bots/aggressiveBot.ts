@@ -0,0 +1,94 @@
+// src/features/game/lib/bots/aggressiveBot.ts
+// Сложный: ищет путь как обычный, но охотится за поверапами и пускает их в ход —
+// стреляет по курсу, ускоряется к дальним целям, выходит из тупиков и меняется с длинными
+
+import {
+  buildNavigationGrid,
+  findSelf,
+  floodArea,
+  manhattan,
+  stepCell,
+  turnMessage,
+  type BotSelf,
+  type NavigationGrid,
+} from '@/features/game/lib/bots/navigation';
+import { planMove } from '@/features/game/lib/bots/pathfinderBot';
+import type { Bot, BotContext } from '@/features/game/lib/bots/types';
+import type { ClientMessage, PowerUpType } from '@/features/game/types';
+
+const PROJECTILE_RANGE = 10;
+const BOOST_MIN_DISTANCE = 6;
+
+const opponentInLine = ({ state, playerId }: BotContext, self: BotSelf) => {
+  if (!self.direction) return false;
+  const myTeam = state.players[playerId]?.teamId ?? null;
+  const targets = new Set<string>();
+  for (const snake of state.snakes) {
+    if (snake.id === playerId) continue;
+    if (myTeam && state.players[snake.id]?.teamId === myTeam) continue;
+    for (const cell of snake.body) targets.add(`${cell.x}:${cell.y}`);
+  }
+  let cell = self.head;
+  for (let distance = 0; distance < PROJECTILE_RANGE; distance++) {
+    cell = stepCell(cell, self.direction);
+    if (targets.has(`${cell.x}:${cell.y}`)) return true;
+  }
+  return false;
+};
+
+const longerOpponentNearby = ({ state, playerId }: BotContext, self: BotSelf) =>
+  state.snakes.some(
+    (snake) =>
+      snake.id !== playerId &&
+      snake.body.length >= self.body.length + 4 &&
+      manhattan(snake.body[0], self.head) < state.gridSize / 2,
+  );
+
+const shouldUse = (
+  type: PowerUpType,
+  context: BotContext,
+  grid: NavigationGrid,
+  self: BotSelf,
+  room: number,
+): boolean => {
+  const cramped = room < self.body.length + 2;
+  switch (type) {
+    case 'ScoreBoost':
+      return true;
+    case 'Projectile':
+      return opponentInLine(context, self);
+    case 'SpeedBoost': {
+      const nearestFood = Math.min(...context.state.food.map((food) => manhattan(food, self.head)));
+      return !cramped && nearestFood >= BOOST_MIN_DISTANCE;
+    }
+    case 'Ghost':
+      return cramped && !self.isGhost;
+    case 'Reverse': {
+      const tail = self.body[self.body.length - 1];
+      return cramped && floodArea(grid, tail, room + 1) > room;
+    }
+    case 'Swap':
+      return longerOpponentNearby(context, self);
+    default:
+      return false;
+  }
+};
+
+export const createAggressiveBot = (): Bot => ({
+  difficulty: 'hard',
+
+  decide(context: BotContext) {
+    const self = findSelf(context.state, context.playerId, context.now);
+    if (!self) return [];
+    const grid = buildNavigationGrid(context.state, context.playerId, context.now);
+    const move = planMove(context, grid, self, { powerUpBias: 8 });
+    const messages: ClientMessage[] = [...turnMessage(self, move)];
+
+    const slots = context.state.players[context.playerId]?.powerUpSlots ?? [];
+    const room = move ? floodArea(grid, stepCell(self.head, move), grid.size * grid.size) : 0;
+    // Один бонус за тик: сервер всё равно применит только последний
+    const slot = slots.findIndex((type) => type && shouldUse(type, context, grid, self, room));
+    if (slot >= 0) messages.push({ action: 'use_powerup', slot });
+    return messages;
+  },
+});
@@ -0,0 +1,41 @@
+// src/features/game/lib/bots/greedyBot.ts
+// Лёгкий: прямо к ближайшей еде, уворачивается только от смерти на следующем тике
+
+import type { Rng } from '@/features/game/lib/math';
+import {
+  buildNavigationGrid,
+  findSelf,
+  manhattan,
+  safeMoves,
+  stepCell,
+  turnMessage,
+} from '@/features/game/lib/bots/navigation';
+import type { Bot, BotContext } from '@/features/game/lib/bots/types';
+
+// Иногда «зевает» и едет прямо — иначе бот слишком предсказуемо идеален
+const DISTRACTION_CHANCE = 0.15;
+
+export const createGreedyBot = (rng: Rng): Bot => ({
+  difficulty: 'easy',
+
+  decide({ state, playerId, now }: BotContext) {
+    const self = findSelf(state, playerId, now);
+    if (!self) return [];
+
+    const grid = buildNavigationGrid(state, playerId, now);
+    const moves = safeMoves(grid, self);
+    if (!moves.length) return [];
+    if (self.direction && moves.includes(self.direction) && rng() < DISTRACTION_CHANCE) return [];
+
+    const target = state.food.reduce<{ x: number; y: number } | null>(
+      (best, food) => (!best || manhattan(self.head, food) < manhattan(self.head, best) ? food : best),
+      null,
+    );
+    if (!target) return turnMessage(self, self.direction && moves.includes(self.direction) ? self.direction : moves[0]);
+
+    const [choice] = [...moves].sort(
+      (a, b) => manhattan(stepCell(self.head, a), target) - manhattan(stepCell(self.head, b), target),
+    );
+    return turnMessage(self, choice);
+  },
+});
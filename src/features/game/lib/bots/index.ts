@@ -0,0 +1,40 @@
+// src/features/game/lib/bots/index.ts
+
+import { BOTS } from '@/features/game/config';
+import type { Rng } from '@/features/game/lib/math';
+import { createAggressiveBot } from '@/features/game/lib/bots/aggressiveBot';
+import { createGreedyBot } from '@/features/game/lib/bots/greedyBot';
+import { createPathfinderBot } from '@/features/game/lib/bots/pathfinderBot';
+import type { Bot, BotDifficulty } from '@/features/game/lib/bots/types';
+
+export type { Bot, BotContext, BotDifficulty } from '@/features/game/lib/bots/types';
+
+export const BOT_DIFFICULTIES: { key: BotDifficulty; label: string; description: string }[] = [
+  { key: 'easy', label: 'Greedy', description: 'Chases the nearest food, ignores hazards.' },
+  { key: 'normal', label: 'Pathfinder', description: 'Plans around bodies, blocks and the shrinking zone.' },
+  { key: 'hard', label: 'Aggressor', description: 'Hunts power-ups and uses them against you.' },
+];
+
+export const createBot = (difficulty: BotDifficulty, rng: Rng): Bot => {
+  switch (difficulty) {
+    case 'normal':
+      return createPathfinderBot();
+    case 'hard':
+      return createAggressiveBot();
+    default:
+      return createGreedyBot(rng);
+  }
+};
+
+const isDifficulty = (value: string): value is BotDifficulty =>
+  BOT_DIFFICULTIES.some((entry) => entry.key === value);
+
+// Состав вида easy,hard,hard (из URL или хранилища); незнакомые записи отбрасываем
+export const parseBotLineup = (value: string | null | undefined): BotDifficulty[] =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(isDifficulty)
+    .slice(0, BOTS.maxPerMatch);
+
+export const serializeBotLineup = (lineup: BotDifficulty[]) => lineup.join(',');
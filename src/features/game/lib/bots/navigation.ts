@@ -0,0 +1,178 @@
+// src/features/game/lib/bots/navigation.ts
+// Общие для ботов хелперы по сетке: занятые и опасные клетки, BFS и заливка
+
+import { getDirectionFromSnake, isOpposite, type Direction } from '@/features/game/lib/client/direction';
+import type { GameState } from '@/features/game/types';
+
+export type Cell = { x: number; y: number };
+
+export const DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+
+const STEP: Record<Direction, Cell> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+export const cellKey = (cell: Cell) => `${cell.x}:${cell.y}`;
+
+export const stepCell = (cell: Cell, direction: Direction): Cell => ({
+  x: cell.x + STEP[direction].x,
+  y: cell.y + STEP[direction].y,
+});
+
+export const manhattan = (a: Cell, b: Cell) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+export interface NavigationGrid {
+  size: number;
+  // Клетки, где смерть прямо сейчас
+  blocked: Set<string>;
+  // Безопасны на этом тике, но скоро, скорее всего, станут смертельными
+  risky: Set<string>;
+}
+
+export interface BotSelf {
+  head: Cell;
+  body: Cell[];
+  direction: Direction | null;
+  isGhost: boolean;
+}
+
+export const findSelf = (state: GameState, playerId: string, now: number): BotSelf | null => {
+  const snake = state.snakes.find((entry) => entry.id === playerId);
+  if (!snake?.body.length) return null;
+  const info = state.players[playerId];
+  return {
+    head: snake.body[0],
+    body: snake.body,
+    direction: getDirectionFromSnake(snake),
+    isGhost: (info?.activeEffects.isGhostUntil ?? 0) > now,
+  };
+};
+
+export const buildNavigationGrid = (state: GameState, playerId: string, now: number): NavigationGrid => {
+  const blocked = new Set<string>();
+  const risky = new Set<string>();
+  const ghost = (state.players[playerId]?.activeEffects.isGhostUntil ?? 0) > now;
+
+  for (const snake of state.snakes) {
+    // Хвост к следующему тику уедет, его не считаем препятствием
+    const solidPart = snake.body.slice(0, Math.max(1, snake.body.length - 1));
+    if (!ghost) {
+      for (const cell of solidPart) blocked.add(cellKey(cell));
+    }
+    if (snake.id !== playerId && snake.body.length) {
+      for (const direction of DIRECTIONS) risky.add(cellKey(stepCell(snake.body[0], direction)));
+    }
+  }
+
+  for (const block of state.blocks ?? []) {
+    if (block.activateAt > now) continue;
+    const target = block.state === 'warning' ? risky : blocked;
+    target.add(cellKey(block));
+  }
+
+  if (state.pendingResize) {
+    const { to } = state.pendingResize;
+    for (let y = 0; y < state.gridSize; y++) {
+      for (let x = 0; x < state.gridSize; x++) {
+        if (x >= to || y >= to) risky.add(cellKey({ x, y }));
+      }
+    }
+  }
+
+  return { size: state.gridSize, blocked, risky };
+};
+
+export const isInside = (grid: NavigationGrid, cell: Cell) =>
+  cell.x >= 0 && cell.y >= 0 && cell.x < grid.size && cell.y < grid.size;
+
+export const isFree = (grid: NavigationGrid, cell: Cell, avoidRisky = false) =>
+  isInside(grid, cell) && !grid.blocked.has(cellKey(cell)) && !(avoidRisky && grid.risky.has(cellKey(cell)));
+
+// Направления без разворота в шею и без смерти на следующем тике
+export const safeMoves = (grid: NavigationGrid, self: BotSelf, avoidRisky = false): Direction[] =>
+  DIRECTIONS.filter(
+    (direction) =>
+      !(self.direction && isOpposite(self.direction, direction)) &&
+      isFree(grid, stepCell(self.head, direction), avoidRisky),
+  );
+
+export interface PathResult {
+  firstStep: Direction;
+  distance: number;
+  target: Cell;
+}
+
+// Поиск в ширину до ближайшей клетки, подходящей под isTarget
+export const findPath = (
+  grid: NavigationGrid,
+  self: BotSelf,
+  isTarget: (cell: Cell) => boolean,
+  avoidRisky = true,
+  maxDistance = grid.size * 2,
+): PathResult | null => {
+  const visited = new Set<string>([cellKey(self.head)]);
+  let frontier: { cell: Cell; firstStep: Direction }[] = safeMoves(grid, self, avoidRisky).map((direction) => ({
+    cell: stepCell(self.head, direction),
+    firstStep: direction,
+  }));
+
+  for (let distance = 1; frontier.length && distance <= maxDistance; distance++) {
+    const next: typeof frontier = [];
+    for (const node of frontier) {
+      const nodeKey = cellKey(node.cell);
+      if (visited.has(nodeKey)) continue;
+      visited.add(nodeKey);
+      if (isTarget(node.cell)) return { firstStep: node.firstStep, distance, target: node.cell };
+      for (const direction of DIRECTIONS) {
+        const cell = stepCell(node.cell, direction);
+        if (!visited.has(cellKey(cell)) && isFree(grid, cell, avoidRisky)) {
+          next.push({ cell, firstStep: node.firstStep });
+        }
+      }
+    }
+    frontier = next;
+  }
+  return null;
+};
+
+// Сколько свободных клеток достижимо из start, не больше limit
+export const floodArea = (grid: NavigationGrid, start: Cell, limit: number, avoidRisky = false) => {
+  if (!isFree(grid, start, avoidRisky)) return 0;
+  const visited = new Set<string>([cellKey(start)]);
+  const queue: Cell[] = [start];
+  while (queue.length && visited.size < limit) {
+    const cell = queue.shift() as Cell;
+    for (const direction of DIRECTIONS) {
+      const next = stepCell(cell, direction);
+      const nextKey = cellKey(next);
+      if (visited.has(nextKey) || !isFree(grid, next, avoidRisky)) continue;
+      visited.add(nextKey);
+      queue.push(next);
+    }
+  }
+  return visited.size;
+};
+
+// Безопасный ход, оставляющий больше всего места, — когда делать больше нечего
+export const roomiestMove = (grid: NavigationGrid, self: BotSelf, limit: number): Direction | null => {
+  let best: Direction | null = null;
+  let bestArea = -1;
+  for (const avoidRisky of [true, false]) {
+    for (const direction of safeMoves(grid, self, avoidRisky)) {
+      const area = floodArea(grid, stepCell(self.head, direction), limit, avoidRisky);
+      // При равенстве держим текущий курс — меньше лишних поворотов
+      if (area > bestArea || (area === bestArea && direction === self.direction)) {
+        best = direction;
+        bestArea = area;
+      }
+    }
+    if (best) return best;
+  }
+  return best;
+};
+
+export const turnMessage = (self: BotSelf, direction: Direction | null) =>
+  direction && direction !== self.direction ? [{ action: 'turn' as const, direction }] : [];
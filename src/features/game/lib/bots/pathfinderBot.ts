@@ -0,0 +1,65 @@
+// src/features/game/lib/bots/pathfinderBot.ts
+// Обычный: строит путь в обход тел, предупреждений и зоны сжатия
+// и не лезет в карманы меньше собственной длины
+
+import type { Direction } from '@/features/game/lib/client/direction';
+import {
+  buildNavigationGrid,
+  cellKey,
+  findPath,
+  findSelf,
+  floodArea,
+  roomiestMove,
+  stepCell,
+  turnMessage,
+  type BotSelf,
+  type Cell,
+  type NavigationGrid,
+} from '@/features/game/lib/bots/navigation';
+import type { Bot, BotContext } from '@/features/game/lib/bots/types';
+
+export interface PathfinderOptions {
+  // На сколько клеток поверап ценнее еды при выборе цели
+  powerUpBias: number;
+}
+
+// Ход к лучшей цели, а если безопасно не дойти ни до одной — в самое просторное место
+export const planMove = (
+  { state, playerId }: BotContext,
+  grid: NavigationGrid,
+  self: BotSelf,
+  { powerUpBias }: PathfinderOptions,
+): Direction | null => {
+  const hasFreeSlot = state.players[playerId]?.powerUpSlots.includes(null) ?? false;
+  const food = new Set(state.food.map(cellKey));
+  const powerUps = new Set(hasFreeSlot ? state.powerUps.map((powerUp) => cellKey(powerUp.position)) : []);
+  const roomNeeded = self.body.length + 2;
+
+  const toFood = findPath(grid, self, (cell) => food.has(cellKey(cell)));
+  const toPowerUp = powerUps.size ? findPath(grid, self, (cell) => powerUps.has(cellKey(cell))) : null;
+
+  const candidates = [toFood, toPowerUp]
+    .filter((path): path is NonNullable<typeof path> => Boolean(path))
+    .sort((a, b) => {
+      const score = (path: typeof a) => path.distance - (powerUps.has(cellKey(path.target)) ? powerUpBias : 0);
+      return score(a) - score(b);
+    });
+
+  for (const path of candidates) {
+    const next: Cell = stepCell(self.head, path.firstStep);
+    // Не лезем в карман, где не развернуться
+    if (floodArea(grid, next, roomNeeded, true) >= roomNeeded) return path.firstStep;
+  }
+  return roomiestMove(grid, self, grid.size * grid.size);
+};
+
+export const createPathfinderBot = (): Bot => ({
+  difficulty: 'normal',
+
+  decide(context: BotContext) {
+    const self = findSelf(context.state, context.playerId, context.now);
+    if (!self) return [];
+    const grid = buildNavigationGrid(context.state, context.playerId, context.now);
+    return turnMessage(self, planMove(context, grid, self, { powerUpBias: 2 }));
+  },
+});
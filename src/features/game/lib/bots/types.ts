@@ -0,0 +1,18 @@
+// src/features/game/lib/bots/types.ts
+
+import type { ClientMessage, GameState } from '@/features/game/types';
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+export interface BotContext {
+  state: GameState;
+  playerId: string;
+  // Серверное время state — для сравнения с таймстемпами эффектов
+  now: number;
+}
+
+// Бот видит тот же GameState, что и игрок, и отвечает теми же сообщениями клиента
+export interface Bot {
+  readonly difficulty: BotDifficulty;
+  decide(context: BotContext): ClientMessage[];
+}
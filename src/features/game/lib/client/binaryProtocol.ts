@@ -0,0 +1,417 @@
+// src/features/game/lib/client/binaryProtocol.ts
+// Компактный бинарный формат кадров сервера, согласуется через Sec-WebSocket-Protocol.
+// Заголовок кадра: [version:u8][kind:u8]; числы little-endian, координаты u8
+//
+// kind 0 (json)  : JSON-конверт в UTF-8, разбирается обычным JSON-парсером
+// kind 1 (state) : HotGameState
+//   tick:u32 gridSize:u16 flags:u8 (bit0 team_battle, bit1 blocks, bit2 resize, bit3 teams, bit4 gameOver)
+//   snakes:u16 × { slot:u16 length:u16 (x:u8 y:u8) × length }
+//   food:u16 × (x:u8 y:u8)
+//   powerUps:u16 × { id:str type:u8 x:u8 y:u8 }
+//   projectiles:u16 × { id:str ownerSlot:u16 x:u8 y:u8 dir:u8 }
+//   [blocks]   count:u16 × { x:u8 y:u8 state:u8 activateAt:f64 expireAt:f64 (NaN = none) }
+//   [resize]   from:u16 to:u16 announcedAt:f64 warnMs:u32 killMs:u32
+//   [teams]    count:u8 × { id:u8 name:str score:i32 players:u8 × str }
+//   [gameOver] winnerId:str winnerNickname:str resetAt:f64 winnerScore:i32
+// str = length:u8 + байты UTF-8
+
+import type {
+  BlockCell,
+  BlockCellState,
+  GameOverInfo,
+  HotGameState,
+  PendingResize,
+  PowerUpType,
+  TeamId,
+  TeamState,
+} from '@/features/game/types';
+import type { Direction } from '@/features/game/lib/client/direction';
+
+export const BINARY_PROTOCOL_VERSION = 1;
+
+const FRAME_KIND_JSON = 0;
+const FRAME_KIND_STATE = 1;
+
+const FLAG_TEAM_BATTLE = 1 << 0;
+const FLAG_BLOCKS = 1 << 1;
+const FLAG_RESIZE = 1 << 2;
+const FLAG_TEAMS = 1 << 3;
+const FLAG_GAME_OVER = 1 << 4;
+
+const POWERUP_TYPES: PowerUpType[] = ['SpeedBoost', 'ScoreBoost', 'Projectile', 'Ghost', 'Reverse', 'Swap'];
+const BLOCK_STATES: BlockCellState[] = ['warning', 'kill', 'solid'];
+const DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+const TEAM_IDS: TeamId[] = ['alpha', 'bravo'];
+
+export type BinaryFrame =
+  | { kind: 'state'; payload: HotGameState }
+  | { kind: 'json'; text: string };
+
+const textDecoder = typeof TextDecoder !== 'undefined' ? new TextDecoder() : null;
+const textEncoder = typeof TextEncoder !== 'undefined' ? new TextEncoder() : null;
+
+class FrameReader {
+  private offset = 0;
+  private readonly view: DataView;
+  private readonly bytes: Uint8Array;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+
+  get remaining() {
+    return this.view.byteLength - this.offset;
+  }
+
+  u8() {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16() {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i32() {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64() {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  str() {
+    const length = this.u8();
+    return this.utf8(length);
+  }
+
+  utf8(length: number) {
+    if (!textDecoder) throw new Error('TextDecoder is not available');
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    if (slice.length !== length) throw new RangeError('Frame truncated');
+    this.offset += length;
+    return textDecoder.decode(slice);
+  }
+}
+
+const readState = (reader: FrameReader): HotGameState => {
+  const tick = reader.u32();
+  const gridSize = reader.u16();
+  const flags = reader.u8();
+
+  const snakes: HotGameState['snakes'] = [];
+  for (let count = reader.u16(); count > 0; count--) {
+    const id = reader.u16();
+    const body: { x: number; y: number }[] = [];
+    for (let length = reader.u16(); length > 0; length--) {
+      body.push({ x: reader.u8(), y: reader.u8() });
+    }
+    snakes.push({ id, body });
+  }
+
+  const food: HotGameState['food'] = [];
+  for (let count = reader.u16(); count > 0; count--) {
+    food.push({ x: reader.u8(), y: reader.u8() });
+  }
+
+  const powerUps: HotGameState['powerUps'] = [];
+  for (let count = reader.u16(); count > 0; count--) {
+    const id = reader.str();
+    const type = POWERUP_TYPES[reader.u8()];
+    const position = { x: reader.u8(), y: reader.u8() };
+    if (type) powerUps.push({ id, type, position });
+  }
+
+  const projectiles: HotGameState['projectiles'] = [];
+  for (let count = reader.u16(); count > 0; count--) {
+    const id = reader.str();
+    const ownerId = reader.u16();
+    const position = { x: reader.u8(), y: reader.u8() };
+    const direction = DIRECTIONS[reader.u8()];
+    if (direction) projectiles.push({ id, ownerId, position, direction });
+  }
+
+  let blocks: BlockCell[] | undefined;
+  if (flags & FLAG_BLOCKS) {
+    const list: BlockCell[] = [];
+    for (let count = reader.u16(); count > 0; count--) {
+      const x = reader.u8();
+      const y = reader.u8();
+      const state = BLOCK_STATES[reader.u8()];
+      const activateAt = reader.f64();
+      const expireAt = reader.f64();
+      if (!state) continue;
+      list.push({
+        x,
+        y,
+        state,
+        activateAt,
+        expireAt: Number.isNaN(expireAt) ? undefined : expireAt,
+      });
+    }
+    blocks = list.length ? list : undefined;
+  }
+
+  let pendingResize: PendingResize | undefined;
+  if (flags & FLAG_RESIZE) {
+    pendingResize = {
+      from: reader.u16(),
+      to: reader.u16(),
+      announcedAt: reader.f64(),
+      warnMs: reader.u32(),
+      killMs: reader.u32(),
+    };
+  }
+
+  let teams: TeamState[] | undefined;
+  if (flags & FLAG_TEAMS) {
+    const list: TeamState[] = [];
+    for (let count = reader.u8(); count > 0; count--) {
+      const id = TEAM_IDS[reader.u8()];
+      const displayName = reader.str();
+      const score = reader.i32();
+      const playerIds: string[] = [];
+      for (let players = reader.u8(); players > 0; players--) {
+        playerIds.push(reader.str());
+      }
+      if (id) list.push({ id, displayName, score, playerIds });
+    }
+    teams = list.length ? list : undefined;
+  }
+
+  let gameOver: GameOverInfo | undefined;
+  if (flags & FLAG_GAME_OVER) {
+    gameOver = {
+      winnerId: reader.str(),
+      winnerNickname: reader.str(),
+      resetAt: reader.f64(),
+      winnerScore: reader.i32(),
+    };
+  }
+
+  return {
+    tick,
+    gridSize,
+    mode: flags & FLAG_TEAM_BATTLE ? 'team_battle' : 'free_for_all',
+    snakes,
+    food,
+    powerUps,
+    projectiles,
+    blocks,
+    pendingResize,
+    teams,
+    gameOver,
+  };
+};
+
+export const decodeBinaryFrame = (buffer: ArrayBuffer): BinaryFrame | null => {
+  try {
+    const reader = new FrameReader(buffer);
+    if (reader.remaining < 2) return null;
+    const version = reader.u8();
+    if (version !== BINARY_PROTOCOL_VERSION) return null;
+    const kind = reader.u8();
+    switch (kind) {
+      case FRAME_KIND_JSON:
+        return { kind: 'json', text: reader.utf8(reader.remaining) };
+      case FRAME_KIND_STATE:
+        return { kind: 'state', payload: readState(reader) };
+      default:
+        return null;
+    }
+  } catch {
+    // RangeError из DataView — кадр обрезан или повреждён
+    return null;
+  }
+};
+
+// Обрезаем по символам, а не по байтам: половинка UTF-8 раскодировалась бы в U+FFFD
+const fitUtf8 = (value: string, maxBytes: number) => {
+  let bytes = 0;
+  let end = 0;
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (bytes > maxBytes) break;
+    end += char.length;
+  }
+  return value.slice(0, end);
+};
+
+class FrameWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private offset = 0;
+
+  private ensure(size: number) {
+    if (this.offset + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.bytes);
+    this.bytes = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  i32(value: number) {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number) {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  str(value: string) {
+    if (!textEncoder) throw new Error('TextEncoder is not available');
+    const encoded = textEncoder.encode(fitUtf8(value, 255));
+    this.u8(encoded.length);
+    this.raw(encoded);
+  }
+
+  raw(data: Uint8Array) {
+    this.ensure(data.length);
+    this.bytes.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  finish(): ArrayBuffer {
+    return this.bytes.slice(0, this.offset).buffer;
+  }
+}
+
+// Обратная сторона декодера: нужна локальным серверам и инструментам, которые
+// говорят с клиентом на том же формате.
+export const encodeStateFrame = (state: HotGameState): ArrayBuffer => {
+  const writer = new FrameWriter();
+  writer.u8(BINARY_PROTOCOL_VERSION);
+  writer.u8(FRAME_KIND_STATE);
+
+  let flags = 0;
+  if (state.mode === 'team_battle') flags |= FLAG_TEAM_BATTLE;
+  if (state.blocks?.length) flags |= FLAG_BLOCKS;
+  if (state.pendingResize) flags |= FLAG_RESIZE;
+  if (state.teams?.length) flags |= FLAG_TEAMS;
+  if (state.gameOver) flags |= FLAG_GAME_OVER;
+
+  writer.u32(state.tick);
+  writer.u16(state.gridSize);
+  writer.u8(flags);
+
+  writer.u16(state.snakes.length);
+  for (const snake of state.snakes) {
+    writer.u16(snake.id);
+    writer.u16(snake.body.length);
+    for (const cell of snake.body) {
+      writer.u8(cell.x);
+      writer.u8(cell.y);
+    }
+  }
+
+  writer.u16(state.food.length);
+  for (const cell of state.food) {
+    writer.u8(cell.x);
+    writer.u8(cell.y);
+  }
+
+  writer.u16(state.powerUps.length);
+  for (const powerUp of state.powerUps) {
+    writer.str(powerUp.id);
+    writer.u8(POWERUP_TYPES.indexOf(powerUp.type));
+    writer.u8(powerUp.position.x);
+    writer.u8(powerUp.position.y);
+  }
+
+  writer.u16(state.projectiles.length);
+  for (const projectile of state.projectiles) {
+    writer.str(projectile.id);
+    writer.u16(projectile.ownerId);
+    writer.u8(projectile.position.x);
+    writer.u8(projectile.position.y);
+    writer.u8(DIRECTIONS.indexOf(projectile.direction));
+  }
+
+  if (flags & FLAG_BLOCKS && state.blocks) {
+    writer.u16(state.blocks.length);
+    for (const block of state.blocks) {
+      writer.u8(block.x);
+      writer.u8(block.y);
+      writer.u8(BLOCK_STATES.indexOf(block.state));
+      writer.f64(block.activateAt);
+      writer.f64(block.expireAt ?? Number.NaN);
+    }
+  }
+
+  if (state.pendingResize) {
+    const resize = state.pendingResize;
+    writer.u16(resize.from);
+    writer.u16(resize.to);
+    writer.f64(resize.announcedAt);
+    writer.u32(resize.warnMs);
+    writer.u32(resize.killMs);
+  }
+
+  if (flags & FLAG_TEAMS && state.teams) {
+    writer.u8(state.teams.length);
+    for (const team of state.teams) {
+      writer.u8(TEAM_IDS.indexOf(team.id));
+      writer.str(team.displayName);
+      writer.i32(team.score);
+      writer.u8(team.playerIds.length);
+      for (const id of team.playerIds) writer.str(id);
+    }
+  }
+
+  if (state.gameOver) {
+    writer.str(state.gameOver.winnerId);
+    writer.str(state.gameOver.winnerNickname);
+    writer.f64(state.gameOver.resetAt);
+    writer.i32(state.gameOver.winnerScore);
+  }
+
+  return writer.finish();
+};
+
+export const encodeJsonFrame = (message: unknown): ArrayBuffer => {
+  if (!textEncoder) throw new Error('TextEncoder is not available');
+  const writer = new FrameWriter();
+  writer.u8(BINARY_PROTOCOL_VERSION);
+  writer.u8(FRAME_KIND_JSON);
+  writer.raw(textEncoder.encode(JSON.stringify(message)));
+  return writer.finish();
+};
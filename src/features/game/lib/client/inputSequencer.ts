@@ -0,0 +1,144 @@
+// src/features/game/lib/client/inputSequencer.ts
+// Нумерует исходящие сообщения и держит игровые вводы до подтверждения сервером:
+// потерянные при реконнекте можно переотправить, отброшенные и опоздавшие — посчитать
+
+import { GAME_TIMING, INPUTS } from '@/features/game/config';
+import type { ClientMessage, InputAckPayload, SequencedClientMessage } from '@/features/game/types';
+
+export interface InputStatsSnapshot {
+  // false до первого input_ack; без подтверждений переотправляем только неотправленное
+  acksSupported: boolean;
+  sent: number;
+  acked: number;
+  late: number;
+  dropped: number;
+  resent: number;
+  pending: number;
+}
+
+export const EMPTY_INPUT_STATS: InputStatsSnapshot = {
+  acksSupported: false,
+  sent: 0,
+  acked: 0,
+  late: 0,
+  dropped: 0,
+  resent: 0,
+  pending: 0,
+};
+
+interface PendingInput {
+  message: SequencedClientMessage;
+  createdAt: number;
+  sentAt: number | null;
+}
+
+// Пинги и служебные сообщения тоже нумеруются, но подтверждения ждут только игровые
+const TRACKED_ACTIONS = new Set<ClientMessage['action']>(['turn', 'use_powerup', 'switch_team']);
+
+// Тик, на который попадёт отправленный сейчас ввод: последний виденный тик, плюс время
+// с его прихода, плюс полный RTT (тик шёл к нам половину, ввод пойдёт к серверу вторую)
+export const estimateTargetTick = (
+  lastTick: { tick: number; receivedAt: number } | null,
+  now: number,
+  rttMs: number | null,
+  tickMs: number = GAME_TIMING.serverTickRate,
+) => {
+  if (!lastTick) return null;
+  return lastTick.tick + Math.floor((now - lastTick.receivedAt + (rttMs ?? 0)) / tickMs) + 1;
+};
+
+export class InputSequencer {
+  private readonly resendWindowMs: number;
+
+  private nextSeq = 1;
+  // Map хранит порядок вставки — он же порядок seq
+  private pending = new Map<number, PendingInput>();
+  private acksSupported = false;
+  private sent = 0;
+  private acked = 0;
+  private late = 0;
+  private dropped = 0;
+  private resent = 0;
+
+  constructor(resendWindowMs: number = INPUTS.resendWindowMs) {
+    this.resendWindowMs = resendWindowMs;
+  }
+
+  // Нумеруем сообщение; игровые вводы ждут подтверждения или истечения окна
+  stamp(message: ClientMessage, tick: number | null, now: number): SequencedClientMessage {
+    const stamped: SequencedClientMessage = { ...message, seq: this.nextSeq++, tick };
+    if (TRACKED_ACTIONS.has(message.action)) {
+      this.pending.set(stamped.seq, { message: stamped, createdAt: now, sentAt: null });
+    }
+    return stamped;
+  }
+
+  markSent(seq: number, now: number) {
+    const entry = this.pending.get(seq);
+    if (!entry) return;
+    if (entry.sentAt === null) this.sent += 1;
+    else this.resent += 1;
+    entry.sentAt = now;
+    // Сервер без подтверждений: отправили — и забыли, как раньше
+    if (!this.acksSupported) this.pending.delete(seq);
+  }
+
+  acknowledge({ seq, tick }: InputAckPayload) {
+    this.acksSupported = true;
+    const entry = this.pending.get(seq);
+    // Повторный ack на переотправленный ввод
+    if (!entry) return;
+    this.pending.delete(seq);
+    if (tick === null) {
+      this.dropped += 1;
+      return;
+    }
+    this.acked += 1;
+    if (entry.message.tick !== null && tick > entry.message.tick) this.late += 1;
+  }
+
+  // Бросаем вводы, которые дольше окна переотправки не ушли или не подтвердились
+  expire(now: number) {
+    for (const [seq, entry] of this.pending) {
+      if (now - entry.createdAt <= this.resendWindowMs) continue;
+      this.pending.delete(seq);
+      this.dropped += 1;
+    }
+  }
+
+  // Что отправить в только что открытый сокет, от старых к новым: всё неотправленное,
+  // а с includeUnacked (тихий реконнект) — ещё и неподтверждённые повороты
+  takeResendable(now: number, { includeUnacked }: { includeUnacked: boolean }): SequencedClientMessage[] {
+    this.expire(now);
+    const result: SequencedClientMessage[] = [];
+    for (const entry of this.pending.values()) {
+      if (entry.sentAt === null || (includeUnacked && entry.message.action === 'turn')) {
+        result.push(entry.message);
+      }
+    }
+    return result;
+  }
+
+  snapshot(): InputStatsSnapshot {
+    return {
+      acksSupported: this.acksSupported,
+      sent: this.sent,
+      acked: this.acked,
+      late: this.late,
+      dropped: this.dropped,
+      resent: this.resent,
+      pending: this.pending.size,
+    };
+  }
+
+  // Сбрасываем учёт и счётчики; seq растёт дальше, чтобы сервер не принял новые вводы за повторы
+  reset() {
+    this.pending.clear();
+    this.acksSupported = false;
+    this.sent = 0;
+    this.acked = 0;
+    this.late = 0;
+    this.dropped = 0;
+    this.resent = 0;
+  }
+}
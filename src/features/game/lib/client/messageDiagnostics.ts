@@ -0,0 +1,169 @@
+// src/features/game/lib/client/messageDiagnostics.ts
+// Почему parseServerMessage отверг кадр: проходим те же поля (и короткие алиасы),
+// что и парсеры, и называем первое неподходящее. Зовёт только инспектор, скорость не важна
+
+import { decodeBinaryFrame } from '@/features/game/lib/client/binaryProtocol';
+import type { ServerMessage } from '@/features/game/types';
+
+export interface MessageDiagnosis {
+  // type сообщения, если до него дошли
+  type: string | null;
+  // Путь к полю через точку и что с ним не так
+  problem: string;
+}
+
+// null, если значение подходит, иначе описание «путь: проблема»
+type Check = (value: unknown, path: string) => string | null;
+
+interface FieldSpec {
+  // Сначала полное имя, потом короткие алиасы, которые парсер тоже понимает
+  keys: string[];
+  check: Check;
+  optional: boolean;
+  // Парсер берёт первый присутствующий алиас ('slots' in value ? …) и не откатывается,
+  // если он невалиден; иначе — первый подходящий
+  firstPresent: boolean;
+}
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expect = (predicate: (value: unknown) => boolean, what: string): Check => (value, path) =>
+  predicate(value) ? null : `${path}: expected ${what}, got ${describe(value)}`;
+
+const num = expect((value) => typeof value === 'number' && Number.isFinite(value), 'a finite number');
+const str = expect((value) => typeof value === 'string', 'a string');
+const teamId = expect((value) => value === 'alpha' || value === 'bravo', '"alpha" or "bravo"');
+const teamIdOrNull = expect((value) => value === null || value === 'alpha' || value === 'bravo', 'a team id or null');
+
+const POWERUP_NAMES = ['SpeedBoost', 'ScoreBoost', 'Projectile', 'Ghost', 'Reverse', 'Swap'];
+const powerUpSlot = expect(
+  (value) =>
+    value === null ||
+    (typeof value === 'number' && value >= 0 && value < POWERUP_NAMES.length) ||
+    (typeof value === 'string' && POWERUP_NAMES.includes(value)),
+  'a power-up code, name or null',
+);
+
+const field = (
+  keys: string | string[],
+  check: Check,
+  { optional = false, firstPresent = false } = {},
+): FieldSpec => ({
+  keys: Array.isArray(keys) ? keys : [keys],
+  check,
+  optional,
+  firstPresent,
+});
+
+const shape = (...specs: FieldSpec[]): Check => (value, path) => {
+  if (!isObject(value)) return `${path}: expected an object, got ${describe(value)}`;
+  for (const { keys, check, optional, firstPresent } of specs) {
+    const present = keys.filter((key) => value[key] !== undefined);
+    if (!present.length) {
+      if (optional) continue;
+      return `${path}.${keys[0]}: missing${keys.length > 1 ? ` (also tried ${keys.slice(1).join(', ')})` : ''}`;
+    }
+    // Проверяем те же варианты, что читает парсер: первый найденный или любой подходящий
+    const candidates = firstPresent ? present.slice(0, 1) : present;
+    const problems = candidates.map((key) => check(value[key], `${path}.${key}`));
+    if (problems.some((problem) => problem === null)) continue;
+    return problems[0];
+  }
+  return null;
+};
+
+const arrayOf = (check: Check): Check => (value, path) => {
+  if (!Array.isArray(value)) return `${path}: expected an array, got ${describe(value)}`;
+  for (let index = 0; index < value.length; index++) {
+    const problem = check(value[index], `${path}[${index}]`);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+const recordOf = (check: Check): Check => (value, path) => {
+  if (!isObject(value)) return `${path}: expected an object, got ${describe(value)}`;
+  for (const [key, entry] of Object.entries(value)) {
+    const problem = check(entry, `${path}.${key}`);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+const activeEffects = shape(field(['speedBoostUntil', 'sb'], num), field(['isGhostUntil', 'gh'], num));
+
+const playerInfo = shape(
+  field('nickname', str),
+  field('score', num),
+  field(['powerUpSlots', 'slots'], arrayOf(powerUpSlot), { firstPresent: true }),
+  field(['activeEffects', 'effects'], activeEffects, { firstPresent: true }),
+  field(['teamId', 'team', 't'], teamIdOrNull, { optional: true, firstPresent: true }),
+);
+
+const slotAssignmentObject = shape(field(['slotId', 'slot', 's'], num), field(['playerId', 'player', 'p'], str));
+const slotAssignment: Check = (value, path) =>
+  Array.isArray(value) ? shape(field('0', num), field('1', str))({ ...value }, path) : slotAssignmentObject(value, path);
+
+const playerListFields = [
+  field('players', recordOf(playerInfo)),
+  field(['slotAssignments', 'slots'], arrayOf(slotAssignment), { firstPresent: true }),
+];
+
+// Типизировано по ServerMessage: новый тип сообщения без проверки здесь не скомпилируется
+const PAYLOAD_CHECKS: Record<ServerMessage['type'], Check> = {
+  state: shape(),
+  state_delta: shape(field('bt', num), field('t', num)),
+  player_list: shape(...playerListFields),
+  sync: shape(...playerListFields, field('state', shape())),
+  score_update: shape(field('playerId', str), field(['score', 's'], num)),
+  powerup_update: shape(
+    field(['powerUpSlots', 'slots'], arrayOf(powerUpSlot), { firstPresent: true }),
+    field('activeEffects', activeEffects),
+    field('playerId', str),
+  ),
+  player_joined: shape(field('playerId', str), field(['slotId', 'slot'], num), field('player', playerInfo)),
+  player_left: shape(field('playerId', str), field(['slotId', 'slot'], num)),
+  // Причину не проверяем: парсер молча отбрасывает непонятную
+  player_died: shape(field('playerId', str)),
+  game_over: shape(field('winnerId', str), field('winnerNickname', str), field('resetAt', num), field('winnerScore', num)),
+  team_switched: shape(field('playerId', str), field('teamId', teamId)),
+  team_switch_denied: shape(field('reason', str)),
+  pong: shape(field('id', num)),
+  input_ack: shape(field(['seq', 's'], num)),
+};
+
+const isKnownType = (type: string): type is ServerMessage['type'] => type in PAYLOAD_CHECKS;
+
+// Почему сырой кадр не разберётся; null, если parseServerMessage его примет
+export const diagnoseServerMessage = (data: unknown): MessageDiagnosis | null => {
+  let text = data;
+  if (data instanceof ArrayBuffer) {
+    const frame = decodeBinaryFrame(data);
+    if (!frame) return { type: null, problem: 'binary frame: unknown version or kind, or truncated' };
+    if (frame.kind === 'state') return null;
+    text = frame.text;
+  }
+  if (typeof text !== 'string') return { type: null, problem: `frame: expected text or binary, got ${describe(text)}` };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    return { type: null, problem: `frame: not JSON (${err instanceof Error ? err.message : 'parse error'})` };
+  }
+  if (!isObject(parsed)) return { type: null, problem: `message: expected an object, got ${describe(parsed)}` };
+
+  const { type } = parsed;
+  if (typeof type !== 'string') return { type: null, problem: `type: expected a string, got ${describe(type)}` };
+  if (!isKnownType(type)) return { type, problem: `type: unknown message type "${type}"` };
+
+  const problem = PAYLOAD_CHECKS[type](parsed.payload, 'payload');
+  return problem ? { type, problem } : null;
+};
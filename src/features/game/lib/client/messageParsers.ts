@@ -1,23 +1,34 @@
 import type {
   BlockCellState,
+  DeathCause,
+  DeathCauseKind,
   GameOverInfo,
   HotGameState,
+  InputAckPayload,
+  HotSnakeDelta,
+  HotStateDelta,
   PendingResize,
+  PlayerDiedPayload,
   PlayerInfo,
   PlayerJoinedPayload,
   PlayerLeftPayload,
   PlayerListPayload,
+  PongPayload,
   PowerUpType,
   PowerUpUpdatePayload,
   ScoreUpdatePayload,
   ServerMessage,
   SlotAssignment,
+  SyncPayload,
   TeamId,
   TeamState,
 } from '@/features/game/types';
+import { decodeBinaryFrame } from '@/features/game/lib/client/binaryProtocol';
 
 type RawStateMessage = { type: 'state'; payload: Record<string, unknown> };
+type RawStateDeltaMessage = { type: 'state_delta'; payload: Record<string, unknown> };
 type RawPlayerListMessage = { type: 'player_list'; payload: Record<string, unknown> };
+type RawSyncMessage = { type: 'sync'; payload: Record<string, unknown> };
 type RawScoreUpdateMessage = { type: 'score_update'; payload: Record<string, unknown> };
 type RawPowerUpUpdateMessage = { type: 'powerup_update'; payload: Record<string, unknown> };
 type RawPlayerJoinedMessage = { type: 'player_joined'; payload: Record<string, unknown> };
@@ -26,10 +37,14 @@ type RawPlayerDiedMessage = { type: 'player_died'; payload: Record<string, unkno
 type RawGameOverMessage = { type: 'game_over'; payload: Record<string, unknown> };
 type RawTeamSwitchedMessage = { type: 'team_switched'; payload: Record<string, unknown> };
 type RawTeamSwitchDeniedMessage = { type: 'team_switch_denied'; payload: Record<string, unknown> };
+type RawPongMessage = { type: 'pong'; payload: Record<string, unknown> };
+type RawInputAckMessage = { type: 'input_ack'; payload: Record<string, unknown> };
 
 type RawServerMessage =
   | RawStateMessage
+  | RawStateDeltaMessage
   | RawPlayerListMessage
+  | RawSyncMessage
   | RawScoreUpdateMessage
   | RawPowerUpUpdateMessage
   | RawPlayerJoinedMessage
@@ -37,7 +52,9 @@ type RawServerMessage =
   | RawPlayerDiedMessage
   | RawGameOverMessage
   | RawTeamSwitchedMessage
-  | RawTeamSwitchDeniedMessage;
+  | RawTeamSwitchDeniedMessage
+  | RawPongMessage
+  | RawInputAckMessage;
 
 const isObject = (value: unknown): value is Record<string, unknown> =>
   typeof value === 'object' && value !== null;
@@ -86,6 +103,9 @@ const POWERUP_TYPES = new Set<PowerUpType>(POWERUP_TYPE_MAP);
 
 const BLOCK_CELL_STATE_MAP: BlockCellState[] = ['warning', 'kill', 'solid'];
 
+// Порядок кодов совпадает с wire.ts
+const DEATH_CAUSE_MAP: DeathCauseKind[] = ['snake', 'self', 'projectile', 'block', 'wall', 'arena_shrink'];
+
 const resolvePowerUpType = (value: unknown): PowerUpType | null => {
   if (typeof value === 'number') {
     return POWERUP_TYPE_MAP[value] ?? null;
@@ -225,6 +245,25 @@ const parsePlayerListPayload = (value: unknown): PlayerListPayload | null => {
   return { players, slotAssignments };
 };
 
+const resolveDeathCauseKind = (value: unknown): DeathCauseKind | null => {
+  if (typeof value === 'number') {
+    return DEATH_CAUSE_MAP[value] ?? null;
+  }
+  if (typeof value === 'string' && (DEATH_CAUSE_MAP as string[]).includes(value)) {
+    return value as DeathCauseKind;
+  }
+  return null;
+};
+
+const parseDeathCause = (value: unknown): DeathCause | null => {
+  if (!isObject(value)) return null;
+  const kind = resolveDeathCauseKind('kind' in value ? value.kind : value.k);
+  if (!kind) return null;
+  const killerId = 'killerId' in value ? value.killerId : value.by;
+  if (killerId === undefined) return { kind };
+  return isString(killerId) ? { kind, killerId } : null;
+};
+
 const parseScoreUpdatePayload = (value: unknown): ScoreUpdatePayload | null => {
   if (!isObject(value)) return null;
   if (!isString(value.playerId)) return null;
@@ -276,9 +315,13 @@ const parsePlayerLeftPayload = (value: unknown): PlayerLeftPayload | null => {
   };
 };
 
-const parsePlayerDiedPayload = (value: unknown): { playerId: string } | null => {
+const parsePlayerDiedPayload = (value: unknown): PlayerDiedPayload | null => {
   if (!isObject(value) || !isString(value.playerId)) return null;
-  return { playerId: value.playerId };
+  const rawCause = 'cause' in value ? value.cause : value.c;
+  // Непонятную причину (например, новый код от более нового сервера) отбрасываем,
+  // а не всё сообщение: смерть важнее, причину клиент выведет сам
+  const cause = rawCause === undefined ? null : parseDeathCause(rawCause);
+  return cause ? { playerId: value.playerId, cause } : { playerId: value.playerId };
 };
 
 const parseGameOverPayload = (value: unknown): GameOverInfo | null => {
@@ -309,6 +352,20 @@ const parseTeamSwitchDeniedPayload = (value: unknown): { reason: string } | null
   return { reason: value.reason };
 };
 
+const parsePongPayload = (value: unknown): PongPayload | null => {
+  if (!isObject(value) || !isNumber(value.id)) return null;
+  const serverTime = isNumber(value.serverTime) ? value.serverTime : isNumber(value.st) ? value.st : null;
+  return { id: value.id, serverTime };
+};
+
+const parseInputAckPayload = (value: unknown): InputAckPayload | null => {
+  if (!isObject(value)) return null;
+  const seq = isNumber(value.seq) ? value.seq : isNumber(value.s) ? value.s : null;
+  if (seq === null) return null;
+  const tick = isNumber(value.tick) ? value.tick : isNumber(value.t) ? value.t : null;
+  return { seq, tick };
+};
+
 const parseTeams = (value: unknown): TeamState[] | undefined => {
   if (!Array.isArray(value)) return undefined;
   const teams: TeamState[] = [];
@@ -481,6 +538,56 @@ const deserializeHotState = (payload: Record<string, unknown>): HotGameState =>
   };
 };
 
+const parseSnakeDeltas = (value: unknown): HotSnakeDelta[] => {
+  if (!Array.isArray(value)) return [];
+  const deltas: HotSnakeDelta[] = [];
+  for (const entry of value) {
+    if (!isObject(entry) || !isNumber(entry.i)) continue;
+    deltas.push({
+      id: entry.i,
+      push: toPointList(entry.h),
+      pop: isNumber(entry.p) ? Math.max(0, entry.p) : 0,
+    });
+  }
+  return deltas;
+};
+
+const parseSlotIds = (value: unknown): number[] =>
+  Array.isArray(value) ? value.filter((entry): entry is number => isNumber(entry)) : [];
+
+// null в дельте означает «поле очищено», отсутствие ключа — «без изменений»
+const parseNullable = <T>(value: unknown, parse: (raw: unknown) => T | undefined): T | null | undefined => {
+  if (value === null) return null;
+  if (value === undefined) return undefined;
+  return parse(value);
+};
+
+const deserializeStateDelta = (payload: Record<string, unknown>): HotStateDelta => ({
+  baseTick: isNumber(payload.bt) ? payload.bt : -1,
+  tick: isNumber(payload.t) ? payload.t : 0,
+  gridSize: isNumber(payload.g) ? payload.g : undefined,
+  snakes: parseSnakeDeltas(payload.s),
+  addedSnakes: parseSnakes(payload.sa),
+  removedSnakes: parseSlotIds(payload.sr),
+  foodAdded: toPointList(payload.fa),
+  foodRemoved: toPointList(payload.fr),
+  blocksChanged: parseBlocks(payload.ba) ?? [],
+  blocksRemoved: toPointList(payload.br),
+  powerUps: 'p' in payload ? parsePowerUps(payload.p) : undefined,
+  projectiles: 'j' in payload ? parseProjectiles(payload.j) : undefined,
+  pendingResize: parseNullable(payload.r, parsePendingResize),
+  teams: parseNullable(payload.tm, parseTeams),
+  gameOver: parseNullable(payload.o, parseGameOverFromState),
+});
+
+// Снапшот для ресинка: список игроков и полное состояние одного тика
+const parseSyncPayload = (payload: unknown): SyncPayload | null => {
+  if (!isObject(payload) || !isObject(payload.state)) return null;
+  const playerList = parsePlayerListPayload(payload);
+  if (!playerList) return null;
+  return { ...playerList, state: deserializeHotState(payload.state) };
+};
+
 export const isServerMessage = (data: unknown): data is RawServerMessage => {
   if (!isObject(data)) return false;
   const { type, payload } = data as { type?: unknown; payload?: unknown };
@@ -489,8 +596,12 @@ export const isServerMessage = (data: unknown): data is RawServerMessage => {
   switch (type) {
     case 'state':
       return isObject(payload);
+    case 'state_delta':
+      return isObject(payload) && isNumber(payload.bt) && isNumber(payload.t);
     case 'player_list':
       return parsePlayerListPayload(payload) !== null;
+    case 'sync':
+      return parseSyncPayload(payload) !== null;
     case 'score_update':
       return parseScoreUpdatePayload(payload) !== null;
     case 'powerup_update':
@@ -507,16 +618,28 @@ export const isServerMessage = (data: unknown): data is RawServerMessage => {
       return parseTeamSwitchedPayload(payload) !== null;
     case 'team_switch_denied':
       return parseTeamSwitchDeniedPayload(payload) !== null;
+    case 'pong':
+      return parsePongPayload(payload) !== null;
+    case 'input_ack':
+      return parseInputAckPayload(payload) !== null;
     default:
       return false;
   }
 };
 
 export const parseServerMessage = (data: unknown): ServerMessage | null => {
-  if (typeof data !== 'string') return null;
+  let text = data;
+  if (data instanceof ArrayBuffer) {
+    const frame = decodeBinaryFrame(data);
+    if (!frame) return null;
+    if (frame.kind === 'state') return { type: 'state', payload: frame.payload };
+    text = frame.text;
+  }
+
+  if (typeof text !== 'string') return null;
   let parsed: unknown;
   try {
-    parsed = JSON.parse(data);
+    parsed = JSON.parse(text);
   } catch {
     return null;
   }
@@ -529,11 +652,17 @@ export const parseServerMessage = (data: unknown): ServerMessage | null => {
   switch (raw.type) {
     case 'state':
       return { type: 'state', payload: deserializeHotState(raw.payload) };
+    case 'state_delta':
+      return { type: 'state_delta', payload: deserializeStateDelta(raw.payload) };
     case 'player_list': {
       const payload = parsePlayerListPayload(raw.payload);
       if (!payload) return null;
       return { type: 'player_list', payload };
     }
+    case 'sync': {
+      const payload = parseSyncPayload(raw.payload);
+      return payload ? { type: 'sync', payload } : null;
+    }
     case 'score_update': {
       const payload = parseScoreUpdatePayload(raw.payload);
       return payload ? { type: 'score_update', payload } : null;
@@ -566,6 +695,14 @@ export const parseServerMessage = (data: unknown): ServerMessage | null => {
       const payload = parseTeamSwitchDeniedPayload(raw.payload);
       return payload ? { type: 'team_switch_denied', payload } : null;
     }
+    case 'pong': {
+      const payload = parsePongPayload(raw.payload);
+      return payload ? { type: 'pong', payload } : null;
+    }
+    case 'input_ack': {
+      const payload = parseInputAckPayload(raw.payload);
+      return payload ? { type: 'input_ack', payload } : null;
+    }
     default:
       return null;
   }
@@ -0,0 +1,154 @@
+// src/features/game/lib/client/networkStats.ts
+// Скользящая статистика задержек сокета лобби: RTT, джиттер, потери пингов и пропуски тиков
+
+import { NETWORK_STATS } from '@/features/game/config';
+
+export interface NetworkStatsSnapshot {
+  rttMs: number | null;
+  rttMinMs: number | null;
+  rttMaxMs: number | null;
+  jitterMs: number | null;
+  pingLossPct: number;
+  pingsSent: number;
+  pingsLost: number;
+  ticksReceived: number;
+  tickGaps: number;
+  missedTicks: number;
+  tickLossPct: number;
+  lastTick: number | null;
+}
+
+export const EMPTY_NETWORK_STATS: NetworkStatsSnapshot = {
+  rttMs: null,
+  rttMinMs: null,
+  rttMaxMs: null,
+  jitterMs: null,
+  pingLossPct: 0,
+  pingsSent: 0,
+  pingsLost: 0,
+  ticksReceived: 0,
+  tickGaps: 0,
+  missedTicks: 0,
+  tickLossPct: 0,
+  lastTick: null,
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export class NetworkStats {
+  private readonly windowSize: number;
+  private readonly pingTimeoutMs: number;
+
+  private nextPingId = 1;
+  private pending = new Map<number, number>();
+  private rttSamples: number[] = [];
+  // Исходы последних пингов: true — ответ пришёл, false — потерян
+  private pingOutcomes: boolean[] = [];
+  private pingsSent = 0;
+  private pingsLost = 0;
+
+  private lastTick: number | null = null;
+  private tickWindow: { received: number; missed: number }[] = [];
+  private ticksReceived = 0;
+  private tickGaps = 0;
+  private missedTicks = 0;
+
+  constructor(windowSize: number = NETWORK_STATS.windowSize, pingTimeoutMs: number = NETWORK_STATS.pingTimeoutMs) {
+    this.windowSize = windowSize;
+    this.pingTimeoutMs = pingTimeoutMs;
+  }
+
+  private pushBounded<T>(list: T[], value: T) {
+    list.push(value);
+    if (list.length > this.windowSize) list.splice(0, list.length - this.windowSize);
+  }
+
+  // Регистрирует исходящий пинг и возвращает его id
+  createPing(now: number): number {
+    this.expirePending(now);
+    const id = this.nextPingId++;
+    this.pending.set(id, now);
+    this.pingsSent += 1;
+    return id;
+  }
+
+  // Измеренный RTT или null для неизвестных и просроченных пингов
+  recordPong(id: number, now: number): number | null {
+    const sentAt = this.pending.get(id);
+    if (sentAt === undefined) return null;
+    this.pending.delete(id);
+    const rtt = Math.max(0, now - sentAt);
+    this.pushBounded(this.rttSamples, rtt);
+    this.pushBounded(this.pingOutcomes, true);
+    return rtt;
+  }
+
+  private expirePending(now: number) {
+    for (const [id, sentAt] of this.pending) {
+      if (now - sentAt < this.pingTimeoutMs) continue;
+      this.pending.delete(id);
+      this.pingsLost += 1;
+      this.pushBounded(this.pingOutcomes, false);
+    }
+  }
+
+  recordTick(tick: number) {
+    this.ticksReceived += 1;
+    let missed = 0;
+    if (this.lastTick !== null && tick > this.lastTick + 1) {
+      missed = tick - this.lastTick - 1;
+      this.tickGaps += 1;
+      this.missedTicks += missed;
+    }
+    // Тик назад — новый раунд, отсчёт заново
+    if (this.lastTick === null || tick > this.lastTick || tick < this.lastTick - 1) {
+      this.lastTick = tick;
+    }
+    this.pushBounded(this.tickWindow, { received: 1, missed });
+  }
+
+  snapshot(now: number): NetworkStatsSnapshot {
+    this.expirePending(now);
+    const samples = this.rttSamples;
+    let jitterMs: number | null = null;
+    if (samples.length > 1) {
+      const deltas: number[] = [];
+      for (let index = 1; index < samples.length; index++) {
+        deltas.push(Math.abs(samples[index] - samples[index - 1]));
+      }
+      jitterMs = average(deltas);
+    }
+
+    const lostInWindow = this.pingOutcomes.filter((ok) => !ok).length;
+    const windowMissed = this.tickWindow.reduce((sum, entry) => sum + entry.missed, 0);
+    const windowReceived = this.tickWindow.reduce((sum, entry) => sum + entry.received, 0);
+
+    return {
+      rttMs: samples.length ? average(samples) : null,
+      rttMinMs: samples.length ? Math.min(...samples) : null,
+      rttMaxMs: samples.length ? Math.max(...samples) : null,
+      jitterMs,
+      pingLossPct: this.pingOutcomes.length ? (lostInWindow / this.pingOutcomes.length) * 100 : 0,
+      pingsSent: this.pingsSent,
+      pingsLost: this.pingsLost,
+      ticksReceived: this.ticksReceived,
+      tickGaps: this.tickGaps,
+      missedTicks: this.missedTicks,
+      tickLossPct: windowReceived + windowMissed ? (windowMissed / (windowReceived + windowMissed)) * 100 : 0,
+      lastTick: this.lastTick,
+    };
+  }
+
+  reset() {
+    this.pending.clear();
+    this.rttSamples = [];
+    this.pingOutcomes = [];
+    this.pingsSent = 0;
+    this.pingsLost = 0;
+    this.lastTick = null;
+    this.tickWindow = [];
+    this.ticksReceived = 0;
+    this.tickGaps = 0;
+    this.missedTicks = 0;
+  }
+}
@@ -0,0 +1,103 @@
+// src/features/game/lib/client/prediction.ts
+// Предсказание своей змейки: рендерер показывает её на тик вперёд по последнему
+// отправленному направлению и плавно сводит с авторитетным телом на новом состоянии
+
+import { CLIENT_STATE } from '@/features/game/config';
+import { getDirectionFromSnake, isOpposite, type Direction } from '@/features/game/lib/client/direction';
+import type { GameState } from '@/features/game/types';
+
+type Cell = { x: number; y: number };
+
+const STEP: Record<Direction, Cell> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+export const advanceBody = (body: Cell[], direction: Direction, gridSize: number): Cell[] | null => {
+  if (!body.length) return null;
+  const head = body[0];
+  const next = { x: head.x + STEP[direction].x, y: head.y + STEP[direction].y };
+  if (next.x < 0 || next.y < 0 || next.x >= gridSize || next.y >= gridSize) return null;
+  return [next, ...body.slice(0, body.length - 1)];
+};
+
+const headDistance = (a: Cell[], b: Cell[]) => {
+  if (!a.length || !b.length) return Infinity;
+  return Math.abs(a[0].x - b[0].x) + Math.abs(a[0].y - b[0].y);
+};
+
+const replaceSnakeBody = (state: GameState, playerId: string, body: Cell[]): GameState => ({
+  ...state,
+  snakes: state.snakes.map((snake) => (snake.id === playerId ? { id: snake.id, body } : snake)),
+});
+
+export interface PredictionInput {
+  current: GameState;
+  previous: GameState | null;
+  playerId: string | null;
+  direction: Direction | null;
+  now: number;
+}
+
+export interface PredictionOutput {
+  current: GameState;
+  previous: GameState | null;
+}
+
+export const createLocalSnakePredictor = () => {
+  let reconciledTick: number | null = null;
+  let lastPredicted: Cell[] | null = null;
+  let blendFrom: Cell[] | null = null;
+
+  const reset = () => {
+    reconciledTick = null;
+    lastPredicted = null;
+    blendFrom = null;
+  };
+
+  const apply = ({ current, previous, playerId, direction, now }: PredictionInput): PredictionOutput => {
+    const passthrough = { current, previous };
+    if (!playerId || current.gameOver) {
+      reset();
+      return passthrough;
+    }
+
+    const authoritative = current.snakes.find((snake) => snake.id === playerId);
+    const info = current.players[playerId];
+    // Со спидбустом сервер двигает змейку непредсказуемо — не угадываем
+    if (!authoritative?.body.length || (info?.activeEffects.speedBoostUntil ?? 0) > now) {
+      reset();
+      return passthrough;
+    }
+
+    // Новый тик: сверяемся с авторитетным телом и решаем, откуда плавно доводить
+    if (reconciledTick !== current.tick) {
+      reconciledTick = current.tick;
+      const mismatch = lastPredicted ? headDistance(lastPredicted, authoritative.body) : Infinity;
+      blendFrom =
+        lastPredicted && mismatch <= CLIENT_STATE.predictionSnapDistance ? lastPredicted : authoritative.body;
+    }
+
+    const serverDirection = getDirectionFromSnake(authoritative);
+    const intended =
+      direction && !(serverDirection && isOpposite(serverDirection, direction)) ? direction : serverDirection;
+    const predicted = intended ? advanceBody(authoritative.body, intended, current.gridSize) : null;
+    if (!predicted) {
+      lastPredicted = authoritative.body;
+      return passthrough;
+    }
+
+    lastPredicted = predicted;
+    const from = blendFrom ?? authoritative.body;
+    return {
+      current: replaceSnakeBody(current, playerId, predicted),
+      previous: previous ? replaceSnakeBody(previous, playerId, from) : replaceSnakeBody(current, playerId, from),
+    };
+  };
+
+  return { apply, reset };
+};
+
+export type LocalSnakePredictor = ReturnType<typeof createLocalSnakePredictor>;
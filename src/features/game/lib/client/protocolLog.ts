@@ -0,0 +1,143 @@
+// src/features/game/lib/client/protocolLog.ts
+// Ограниченный лог кадров сокета лобби в обе стороны для инспектора: размер, время
+// декодирования и, для отвергнутых, виноватое поле. Выгружается в JSON для баг-репортов
+
+import { INSPECTOR } from '@/features/game/config';
+import { diagnoseServerMessage } from '@/features/game/lib/client/messageDiagnostics';
+import type { ServerMessage } from '@/features/game/types';
+
+export type FrameDirection = 'in' | 'out';
+
+export interface ProtocolFrame {
+  id: number;
+  direction: FrameDirection;
+  // Настенное время в мс — сверять с логами сервера
+  time: number;
+  // type входящего или action исходящего; heartbeat для h/H, ? если неизвестно
+  type: string;
+  bytes: number;
+  // Время в parseServerMessage; null для исходящих
+  decodeMs: number | null;
+  // Почему парсер отверг кадр; null, если принял
+  rejection: string | null;
+  preview: string;
+}
+
+export interface ProtocolLogExport {
+  format: 'slize-protocol-log';
+  exportedAt: string;
+  userAgent: string | null;
+  dropped: number;
+  frames: ProtocolFrame[];
+}
+
+// Получает каждый кадр сокета лобби: лог инспектора или зонд нагрузочного теста
+export interface ProtocolObserver {
+  // message равен null, если parseServerMessage отверг кадр
+  recordInbound(data: string | ArrayBuffer, message: ServerMessage | null, decodeMs: number): void;
+  recordOutbound(data: string): void;
+}
+
+const textEncoder = new TextEncoder();
+
+const byteLength = (data: string | ArrayBuffer) =>
+  typeof data === 'string' ? textEncoder.encode(data).byteLength : data.byteLength;
+
+const clip = (text: string, limit: number) => (text.length > limit ? `${text.slice(0, limit)}…` : text);
+
+const previewOf = (data: string | ArrayBuffer, limit: number) =>
+  typeof data === 'string' ? clip(data, limit) : `<binary ${data.byteLength} bytes>`;
+
+const outboundType = (data: string) => {
+  if (data === 'H') return 'heartbeat';
+  try {
+    const action = (JSON.parse(data) as { action?: unknown }).action;
+    return typeof action === 'string' ? action : '?';
+  } catch {
+    return '?';
+  }
+};
+
+export class ProtocolLog implements ProtocolObserver {
+  private readonly maxEntries: number;
+  private frames: ProtocolFrame[] = [];
+  private published: readonly ProtocolFrame[] = [];
+  private nextId = 1;
+  private dropped = 0;
+  private publishTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(maxEntries: number = INSPECTOR.maxEntries) {
+    this.maxEntries = maxEntries;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Новые в конце; новый массив только после публикации — панели ре-рендерятся пару раз в секунду
+  getSnapshot = (): readonly ProtocolFrame[] => this.published;
+
+  recordInbound(data: string | ArrayBuffer, message: ServerMessage | null, decodeMs: number) {
+    if (data === 'h') {
+      this.push({ direction: 'in', type: 'heartbeat', bytes: 1, decodeMs: null, rejection: null, preview: 'h' });
+      return;
+    }
+    const diagnosis = message ? null : diagnoseServerMessage(data);
+    this.push({
+      direction: 'in',
+      // В редком случае диагностика не нашла изъяна, а парсер всё равно отказал
+      type: message?.type ?? diagnosis?.type ?? '?',
+      bytes: byteLength(data),
+      decodeMs,
+      rejection: message ? null : (diagnosis?.problem ?? 'rejected by parseServerMessage'),
+      preview: previewOf(data, message ? INSPECTOR.previewChars : INSPECTOR.rejectedPreviewChars),
+    });
+  }
+
+  recordOutbound(data: string) {
+    this.push({
+      direction: 'out',
+      type: outboundType(data),
+      bytes: byteLength(data),
+      decodeMs: null,
+      rejection: null,
+      preview: clip(data, INSPECTOR.previewChars),
+    });
+  }
+
+  clear() {
+    this.frames = [];
+    this.dropped = 0;
+    this.publish();
+  }
+
+  toJSON(): ProtocolLogExport {
+    return {
+      format: 'slize-protocol-log',
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator === 'undefined' ? null : navigator.userAgent,
+      dropped: this.dropped,
+      frames: this.frames.slice(),
+    };
+  }
+
+  private push(frame: Omit<ProtocolFrame, 'id' | 'time'>) {
+    this.frames.push({ id: this.nextId++, time: Date.now(), ...frame });
+    if (this.frames.length > this.maxEntries) {
+      this.frames.shift();
+      this.dropped += 1;
+    }
+    this.publishTimer ??= setTimeout(() => this.publish(), INSPECTOR.publishIntervalMs);
+  }
+
+  private publish() {
+    if (this.publishTimer) clearTimeout(this.publishTimer);
+    this.publishTimer = null;
+    this.published = this.frames.slice();
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,63 @@
+// src/features/game/lib/client/serverClock.ts
+// Оценка серверных часов в духе NTP: каждый pong со временем сервера — замер,
+// побеждает смещение замера с наименьшим RTT — у него пути туда и обратно симметричнее
+
+import { CLOCK_SYNC } from '@/features/game/config';
+
+interface ClockSample {
+  offsetMs: number;
+  rttMs: number;
+}
+
+// Монотонное локальное время в эпохе: не прыгает при переводе системных часов
+export const localEpochNow = () =>
+  typeof performance !== 'undefined' && performance.timeOrigin
+    ? performance.timeOrigin + performance.now()
+    : Date.now();
+
+class ServerClock {
+  private samples: ClockSample[] = [];
+  private offsetMs = 0;
+  private synced = false;
+
+  // Один обмен ping/pong: rttMs — измеренный RTT, serverTime — время сервера в момент ответа,
+  // receivedAt — локальное время прихода pong (см. localEpochNow)
+  public addSample(rttMs: number, serverTime: number, receivedAt: number) {
+    // Сервер ответил примерно посередине пути
+    const offsetMs = serverTime + rttMs / 2 - receivedAt;
+    this.samples.push({ offsetMs, rttMs });
+    if (this.samples.length > CLOCK_SYNC.sampleWindow) {
+      this.samples.splice(0, this.samples.length - CLOCK_SYNC.sampleWindow);
+    }
+
+    const best = this.samples.reduce((min, sample) => (sample.rttMs < min.rttMs ? sample : min));
+    if (!this.synced || Math.abs(best.offsetMs - this.offsetMs) > CLOCK_SYNC.stepThresholdMs) {
+      this.offsetMs = best.offsetMs;
+    } else {
+      this.offsetMs += (best.offsetMs - this.offsetMs) * CLOCK_SYNC.smoothing;
+    }
+    this.synced = true;
+  }
+
+  // Текущее время сервера в мс; до первого замера — локальное
+  public now() {
+    return localEpochNow() + this.offsetMs;
+  }
+
+  public getOffset() {
+    return this.offsetMs;
+  }
+
+  public isSynced() {
+    return this.synced;
+  }
+
+  public reset() {
+    this.samples = [];
+    this.offsetMs = 0;
+    this.synced = false;
+  }
+}
+
+// Один общий экземпляр: рендерер и HUD читают время отсюда
+export const serverClock = new ServerClock();
@@ -0,0 +1,162 @@
+// src/features/game/lib/client/snapshotBuffer.ts
+// Джиттер-буфер для отрисовки: снапшоты раскладываются по шкале тиков, рендерер
+// берёт кадр с небольшой задержкой от свежего тика, подстроенной под джиттер
+
+import { GAME_TIMING, SNAPSHOT_BUFFER } from '@/features/game/config';
+import type { GameState } from '@/features/game/types';
+
+interface BufferedSnapshot {
+  tick: number;
+  state: GameState;
+}
+
+export interface SnapshotFrame {
+  previous: GameState | null;
+  current: GameState | null;
+  interpolation: number;
+}
+
+export interface SnapshotBufferStats {
+  delayMs: number;
+  jitterMs: number;
+  underruns: number;
+  size: number;
+  newestTick: number | null;
+}
+
+export interface SnapshotBufferOptions {
+  tickMs?: number;
+  minDelayMs?: number;
+  maxDelayMs?: number;
+  jitterMultiplier?: number;
+  capacity?: number;
+}
+
+export class SnapshotBuffer {
+  private readonly tickMs: number;
+  private readonly minDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitterMultiplier: number;
+  private readonly capacity: number;
+
+  private snapshots: BufferedSnapshot[] = [];
+  // Сдвиг «тик → локальное время», по самым быстрым пакетам
+  private timelineOffset: number | null = null;
+  private lastTransit: number | null = null;
+  private jitterMs = 0;
+  private delayMs: number;
+  private underruns = 0;
+  private inUnderrun = false;
+
+  constructor(options: SnapshotBufferOptions = {}) {
+    this.tickMs = options.tickMs ?? GAME_TIMING.serverTickRate;
+    this.minDelayMs = options.minDelayMs ?? SNAPSHOT_BUFFER.minDelayMs;
+    this.maxDelayMs = options.maxDelayMs ?? SNAPSHOT_BUFFER.maxDelayMs;
+    this.jitterMultiplier = options.jitterMultiplier ?? SNAPSHOT_BUFFER.jitterMultiplier;
+    this.capacity = options.capacity ?? SNAPSHOT_BUFFER.capacity;
+    this.delayMs = this.clampDelay(this.tickMs);
+  }
+
+  private clampDelay(value: number) {
+    return Math.min(this.maxDelayMs, Math.max(this.minDelayMs, value));
+  }
+
+  clear() {
+    this.snapshots = [];
+    this.timelineOffset = null;
+    this.lastTransit = null;
+    this.jitterMs = 0;
+    this.delayMs = this.clampDelay(this.tickMs);
+    this.inUnderrun = false;
+  }
+
+  push(state: GameState, receivedAt: number) {
+    const newest = this.snapshots[this.snapshots.length - 1];
+
+    // Тот же тик (обновились игроки/очки) — подменяем снапшот, тайминг не трогаем
+    if (newest && newest.tick === state.tick) {
+      newest.state = state;
+      return;
+    }
+    // Тик пошёл назад — новый раунд или переподключение
+    if (newest && state.tick < newest.tick) {
+      this.clear();
+    }
+
+    const transit = receivedAt - state.tick * this.tickMs;
+    if (this.timelineOffset === null || transit < this.timelineOffset) {
+      this.timelineOffset = transit;
+    } else {
+      // медленно отпускаем вверх, чтобы пережить дрейф часов
+      this.timelineOffset += (transit - this.timelineOffset) * 0.01;
+    }
+
+    // RFC 3550: J += (|D| - J) / 16
+    if (this.lastTransit !== null) {
+      const deviation = Math.abs(transit - this.lastTransit);
+      this.jitterMs += (deviation - this.jitterMs) / 16;
+    }
+    this.lastTransit = transit;
+
+    const targetDelay = this.clampDelay(this.tickMs + this.jitterMs * this.jitterMultiplier);
+    this.delayMs += (targetDelay - this.delayMs) * 0.05;
+
+    this.snapshots.push({ tick: state.tick, state });
+    if (this.snapshots.length > this.capacity) {
+      this.snapshots.splice(0, this.snapshots.length - this.capacity);
+    }
+  }
+
+  sample(now: number): SnapshotFrame {
+    const count = this.snapshots.length;
+    if (!count || this.timelineOffset === null) {
+      return { previous: null, current: null, interpolation: 1 };
+    }
+
+    const renderTick = (now - this.timelineOffset - this.delayMs) / this.tickMs;
+    const newest = this.snapshots[count - 1];
+
+    if (renderTick >= newest.tick) {
+      // Буфер опустел: держим последний снапшот и считаем провал один раз
+      if (!this.inUnderrun && count > 1) {
+        this.underruns += 1;
+        this.inUnderrun = true;
+      }
+      return {
+        previous: count > 1 ? this.snapshots[count - 2].state : null,
+        current: newest.state,
+        interpolation: 1,
+      };
+    }
+    this.inUnderrun = false;
+
+    const oldest = this.snapshots[0];
+    if (renderTick <= oldest.tick) {
+      return { previous: null, current: oldest.state, interpolation: 1 };
+    }
+
+    for (let index = count - 1; index > 0; index--) {
+      const from = this.snapshots[index - 1];
+      if (from.tick <= renderTick) {
+        const to = this.snapshots[index];
+        return {
+          previous: from.state,
+          current: to.state,
+          interpolation: (renderTick - from.tick) / (to.tick - from.tick),
+        };
+      }
+    }
+
+    return { previous: null, current: oldest.state, interpolation: 1 };
+  }
+
+  getStats(): SnapshotBufferStats {
+    return {
+      delayMs: this.delayMs,
+      jitterMs: this.jitterMs,
+      underruns: this.underruns,
+      size: this.snapshots.length,
+      newestTick: this.snapshots[this.snapshots.length - 1]?.tick ?? null,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+// src/features/game/lib/client/stateDelta.ts
+// Собирает полные HotGameState из дельт, привязанных к тику
+
+import type { BlockCell, HotGameState, HotSnake, HotStateDelta } from '@/features/game/types';
+
+// Сколько дельт подряд можно выбросить, прежде чем повторить запрос ключевого кадра
+const KEYFRAME_RETRY_FRAMES = 20;
+
+const cellKey = (cell: { x: number; y: number }) => `${cell.x}:${cell.y}`;
+
+const applySnakeDeltas = (base: HotSnake[], delta: HotStateDelta): HotSnake[] => {
+  const removed = new Set(delta.removedSnakes);
+  const bySlot = new Map<number, HotSnake>();
+  for (const snake of base) {
+    if (!removed.has(snake.id)) bySlot.set(snake.id, snake);
+  }
+
+  for (const change of delta.snakes) {
+    const snake = bySlot.get(change.id);
+    if (!snake) continue;
+    const pushed = [...change.push].reverse();
+    const body = [...pushed, ...snake.body];
+    const keep = Math.max(0, body.length - change.pop);
+    bySlot.set(change.id, { id: snake.id, body: body.slice(0, keep) });
+  }
+
+  for (const snake of delta.addedSnakes) {
+    bySlot.set(snake.id, { id: snake.id, body: snake.body.map((cell) => ({ ...cell })) });
+  }
+
+  return Array.from(bySlot.values());
+};
+
+const applyFoodDelta = (base: HotGameState['food'], delta: HotStateDelta) => {
+  if (!delta.foodAdded.length && !delta.foodRemoved.length) return base;
+  const removed = new Set(delta.foodRemoved.map(cellKey));
+  return [...base.filter((cell) => !removed.has(cellKey(cell))), ...delta.foodAdded];
+};
+
+const applyBlockDelta = (base: BlockCell[] | undefined, delta: HotStateDelta) => {
+  if (!delta.blocksChanged.length && !delta.blocksRemoved.length) return base;
+  const byCell = new Map<string, BlockCell>();
+  for (const block of base ?? []) byCell.set(cellKey(block), block);
+  for (const cell of delta.blocksRemoved) byCell.delete(cellKey(cell));
+  for (const block of delta.blocksChanged) byCell.set(cellKey(block), block);
+  return byCell.size ? Array.from(byCell.values()) : undefined;
+};
+
+export const applyStateDelta = (base: HotGameState, delta: HotStateDelta): HotGameState => ({
+  tick: delta.tick,
+  gridSize: delta.gridSize ?? base.gridSize,
+  mode: base.mode,
+  snakes: applySnakeDeltas(base.snakes, delta),
+  food: applyFoodDelta(base.food, delta),
+  powerUps: delta.powerUps ?? base.powerUps,
+  projectiles: delta.projectiles ?? base.projectiles,
+  blocks: applyBlockDelta(base.blocks, delta),
+  pendingResize: delta.pendingResize === undefined ? base.pendingResize : delta.pendingResize ?? undefined,
+  teams: delta.teams === undefined ? base.teams : delta.teams,
+  gameOver: delta.gameOver === undefined ? base.gameOver : delta.gameOver,
+});
+
+export type DeltaResult =
+  | { ok: true; state: HotGameState }
+  | { ok: false; lastTick: number | null; requestKeyframe: boolean };
+
+// Хранит последний собранный снапшот сессии сокета. Дельта с чужим baseTick — разрыв:
+// вызывающий просит ключевой кадр (раз на разрыв, и повторно, если он так и не пришёл)
+export const createDeltaTracker = () => {
+  let last: HotGameState | null = null;
+  let awaitingKeyframe = false;
+  let droppedSinceRequest = 0;
+
+  return {
+    acceptKeyframe(state: HotGameState) {
+      last = state;
+      awaitingKeyframe = false;
+      droppedSinceRequest = 0;
+    },
+    applyDelta(delta: HotStateDelta): DeltaResult {
+      if (!last || last.tick !== delta.baseTick) {
+        droppedSinceRequest += 1;
+        const requestKeyframe = !awaitingKeyframe || droppedSinceRequest >= KEYFRAME_RETRY_FRAMES;
+        if (requestKeyframe) droppedSinceRequest = 0;
+        awaitingKeyframe = true;
+        return { ok: false, lastTick: last?.tick ?? null, requestKeyframe };
+      }
+      last = applyStateDelta(last, delta);
+      return { ok: true, state: last };
+    },
+    reset() {
+      last = null;
+      awaitingKeyframe = false;
+      droppedSinceRequest = 0;
+    },
+  };
+};
+
+export type DeltaTracker = ReturnType<typeof createDeltaTracker>;
@@ -0,0 +1,37 @@
+// src/features/game/lib/client/turnQueue.ts
+// Короткая очередь поворотов, набранных между тиками. Сервер применяет одно направление
+// за тик, поэтому быстрое «вверх, влево» уходит двумя поворотами на двух тиках
+
+import type { Direction } from '@/features/game/lib/client/direction';
+import { isOpposite } from '@/features/game/lib/client/direction';
+
+export class TurnQueue {
+  private readonly capacity: number;
+  private queue: Direction[] = [];
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  get size() {
+    return this.queue.length;
+  }
+
+  // Сверяем нажатие с курсом после последнего поворота в очереди (или с heading, если она пуста):
+  // повторы и развороты игнорируем, полная очередь оставляет ранние повороты
+  push(direction: Direction, heading: Direction | null) {
+    const base = this.queue[this.queue.length - 1] ?? heading;
+    if (base && (direction === base || isOpposite(base, direction))) return false;
+    if (this.queue.length >= this.capacity) return false;
+    this.queue.push(direction);
+    return true;
+  }
+
+  shift(): Direction | null {
+    return this.queue.shift() ?? null;
+  }
+
+  clear() {
+    this.queue = [];
+  }
+}
@@ -0,0 +1,729 @@
+// src/features/game/lib/connection/ConnectionController.ts
+// Побочные эффекты машины состояний подключения: авторизация, выбор лобби,
+// сокет, таймеры реконнекта и пинги. Про React не знает — UI читает getSnapshot()
+
+import { CLOCK_SYNC, NETWORK_STATS, WIRE_PROTOCOLS } from '@/features/game/config';
+import {
+  EMPTY_INPUT_STATS,
+  estimateTargetTick,
+  InputSequencer,
+  type InputStatsSnapshot,
+} from '@/features/game/lib/client/inputSequencer';
+import {
+  EMPTY_NETWORK_STATS,
+  NetworkStats,
+  type NetworkStatsSnapshot,
+} from '@/features/game/lib/client/networkStats';
+import type { ProtocolObserver } from '@/features/game/lib/client/protocolLog';
+import { localEpochNow, serverClock } from '@/features/game/lib/client/serverClock';
+import {
+  CLOSE_CODES,
+  ConnectionMachine,
+  connectionError,
+  connectionStatus,
+  isSilentlyReconnecting,
+  reconnectDelay,
+  type ConnectionEvent,
+  type ConnectionState,
+  type ConnectionStatus,
+  type ConnectionTransition,
+} from '@/features/game/lib/connection/connectionMachine';
+import {
+  createSocketMessageHandler,
+  type GameMessageHandlers,
+} from '@/features/game/lib/connection/socketMessages';
+import type { TabLock } from '@/features/game/lib/connection/tabLock';
+import { getSession, type SessionManager } from '@/features/game/lib/session/SessionManager';
+import { ReplayRecorder } from '@/features/game/lib/replay/ReplayRecorder';
+import { downloadReplay, type ReplayFile } from '@/features/game/lib/replay/replayFile';
+import { SOCKET_STATE, TransportError, type GameSocket, type GameTransport } from '@/features/game/lib/transport/types';
+import type { ClientMessage, GameModeKey, SequencedClientMessage } from '@/features/game/types';
+
+export interface ConnectionHandlers extends GameMessageHandlers {
+  // Сбросить отрисованную игру перед новой (не возобновлённой) сессией
+  resetState: () => void;
+  onPlayerIdChange?: (playerId: string | null) => void;
+  // Сокет открыт; resumed — после тихого реконнекта с сохранённой сессией
+  onConnected?: (resumed: boolean) => void;
+  onTeamSwitched?: () => void;
+}
+
+export interface ConnectionSettings {
+  nickname: string;
+  mode: GameModeKey;
+  // Лобби, куда входим (или смотрим) сначала; null — выбирает сервер
+  lobbyId: string | null;
+}
+
+export interface ConnectionControllerOptions {
+  transport: GameTransport;
+  // Наблюдатель: смотрит settings.lobbyId без входа, слота и игровых вводов
+  spectate?: boolean;
+  // Владелец токена и playerId; по умолчанию — общая сессия транспорта
+  session?: SessionManager;
+  tabLock?: TabLock | null;
+  // Инспектор протокола: пишет каждый отправленный и полученный кадр
+  inspector?: ProtocolObserver | null;
+}
+
+export interface ConnectionSnapshot {
+  state: ConnectionState;
+  status: ConnectionStatus;
+  error: string | null;
+  isLocked: boolean;
+  isSilentlyReconnecting: boolean;
+  authBlockedReason: 'nickname_in_use' | null;
+  playerId: string | null;
+  token: string | null;
+  lobbyId: string | null;
+  lobbyName: string | null;
+  networkStats: NetworkStatsSnapshot;
+  inputStats: InputStatsSnapshot;
+  // true, как только текущая сессия записала хоть одно сообщение сервера
+  hasReplay: boolean;
+}
+
+// Предлагаем бинарный формат; если сервер его не выберет — остаёмся на JSON
+const LOBBY_SOCKET_PROTOCOLS = [WIRE_PROTOCOLS.binary, WIRE_PROTOCOLS.json];
+
+// Игровые действия, которые наблюдатель никогда не отправляет
+const SPECTATOR_BLOCKED_ACTIONS = new Set(['turn', 'use_powerup', 'switch_team']);
+
+const TAB_LOCKED_ERROR = 'Game is active in another tab.';
+const HANDED_OFF_ERROR = 'The game moved to another tab.';
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+type TransitionListener = (transition: ConnectionTransition) => void;
+
+export class ConnectionController {
+  readonly machine = new ConnectionMachine();
+
+  private readonly transport: GameTransport;
+  private readonly spectate: boolean;
+  private readonly session: SessionManager;
+  private readonly tabLock: TabLock | null;
+  private readonly inspector: ProtocolObserver | null;
+
+  private settings: ConnectionSettings = { nickname: '', mode: 'free_for_all', lobbyId: null };
+  private handlers: ConnectionHandlers | null = null;
+
+  private socket: GameSocket | null = null;
+  // Любой переход делает устаревшими запросы, запущенные в прошлом состоянии
+  private epoch = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopHeartbeat: (() => void) | null = null;
+  private unwatchTabLock: (() => void) | null = null;
+  private unwatchSession: (() => void) | null = null;
+  private claim: Promise<boolean> | null = null;
+
+  private playerId: string | null = null;
+  private lobby: { id: string; name: string | null } | null = null;
+  private lastLobbyId: string | null = null;
+  private preferredLobbyId: string | null = null;
+  private notice: string | null = null;
+  private noticeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Неотправленные и неподтверждённые вводы живут здесь и переживают реконнект
+  private sequencer = new InputSequencer();
+  private lastTick: { tick: number; receivedAt: number } | null = null;
+  private lastRtt: number | null = null;
+  private networkStats = new NetworkStats();
+  private publishedNetworkStats: NetworkStatsSnapshot = EMPTY_NETWORK_STATS;
+  private publishedInputStats: InputStatsSnapshot = EMPTY_INPUT_STATS;
+  // Запись живёт всю сессию, переживая тихие и обычные реконнекты
+  private recorder = new ReplayRecorder();
+
+  private snapshot: ConnectionSnapshot;
+  private listeners = new Set<() => void>();
+  private transitionListeners = new Set<TransitionListener>();
+
+  constructor({ transport, spectate = false, session, tabLock = null, inspector = null }: ConnectionControllerOptions) {
+    this.transport = transport;
+    this.spectate = spectate;
+    this.session = session ?? getSession(transport);
+    this.tabLock = tabLock;
+    this.inspector = inspector;
+    this.snapshot = this.buildSnapshot();
+    this.machine.subscribe(this.handleTransition);
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  // Каждый переход вместе с вызвавшим его событием — до запуска эффектов
+  onTransition(listener: TransitionListener) {
+    this.transitionListeners.add(listener);
+    return () => {
+      this.transitionListeners.delete(listener);
+    };
+  }
+
+  setHandlers(handlers: ConnectionHandlers) {
+    this.handlers = handlers;
+  }
+
+  configure(settings: Partial<ConnectionSettings>) {
+    const next = { ...this.settings, ...settings };
+    if (next.mode !== this.settings.mode) {
+      // Другой режим — прежнее лобби больше не подходит
+      this.lastLobbyId = null;
+      this.preferredLobbyId = null;
+      this.setLobby(null);
+    }
+    if ('lobbyId' in settings) {
+      const normalized = settings.lobbyId?.trim() || null;
+      this.preferredLobbyId = normalized;
+      if (normalized) this.lastLobbyId = normalized;
+    }
+    this.settings = next;
+  }
+
+  // Вступаем в выборы вкладок и следим за лидером; вызывается один раз при монтировании UI
+  attach() {
+    // Обновлённый токен сразу попадает в снимок
+    this.unwatchSession ??= this.session.subscribe(() => this.emit());
+    const tabLock = this.tabLock;
+    if (tabLock && !this.unwatchTabLock) {
+      const unwatch = tabLock.watch((owner, leader) => {
+        if (owner === 'other') {
+          this.dispatch({ type: 'tab_locked', error: TAB_LOCKED_ERROR });
+          return;
+        }
+        // Лидер ушёл или упал: продолжаем его игру, если режим тот же
+        if (leader?.lobbyId && leader.mode === this.settings.mode) this.adoptLobby(leader.lobbyId);
+        this.dispatch({ type: 'tab_released' });
+      });
+      const unhandle = tabLock.onHandoffRequest(() => {
+        this.closeSocket(CLOSE_CODES.handedOff, 'Handed over to another tab');
+        this.dispatch({ type: 'tab_locked', error: HANDED_OFF_ERROR });
+        return { lobbyId: this.lastLobbyId, mode: this.settings.mode };
+      });
+      this.unwatchTabLock = () => {
+        unwatch();
+        unhandle();
+      };
+    }
+    void this.claimTab();
+  }
+
+  async connect() {
+    const canStart = () => {
+      const { phase } = this.machine.state;
+      return phase === 'idle' || phase === 'connected' || phase === 'reconnect_wait';
+    };
+    if (!canStart()) return;
+    if (!(await this.claimTab()) || !canStart()) return;
+
+    if (this.settings.nickname.trim().length < 3) {
+      this.setNotice('Nickname must be at least 3 characters.');
+      return;
+    }
+
+    this.setNotice(null);
+    this.handlers?.resetState();
+    this.networkStats.reset();
+    serverClock.reset();
+    this.recorder.reset();
+    this.sequencer.reset();
+    this.lastTick = null;
+    this.lastRtt = null;
+    this.publishedNetworkStats = EMPTY_NETWORK_STATS;
+    this.publishedInputStats = EMPTY_INPUT_STATS;
+    this.dispatch({ type: 'connect' });
+  }
+
+  disconnect() {
+    this.closeSocket(CLOSE_CODES.goingAway, 'User initiated disconnect');
+    this.tabLock?.release();
+    this.handlers?.resetState();
+    this.endSession();
+    this.dispatch({ type: 'disconnect' });
+  }
+
+  // Сообщаем серверу о выходе (сокетом, потом REST), закрываемся и забываем лобби
+  async leave() {
+    const socket = this.socket;
+    try {
+      if (socket && socket.readyState === SOCKET_STATE.OPEN) {
+        this.transmit(socket, JSON.stringify(this.stamp({ action: 'leave' })));
+        // маленький grace-период, чтобы сообщение успело уйти
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    } catch {
+      /* ignore */
+    }
+
+    const lobbyId = this.lastLobbyId;
+    // Наблюдатель в лобби не вступал — и выходить ему не из чего
+    if (lobbyId && this.session.current && !this.spectate) {
+      void this.session.withToken((token) => this.transport.leaveLobby(lobbyId, token)).catch(() => undefined);
+    }
+
+    const closing = this.socket;
+    this.socket = null;
+    if (closing) {
+      const closed = new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, 250);
+        closing.addEventListener('close', () => {
+          clearTimeout(timer);
+          resolve();
+        }, { once: true });
+      });
+      try {
+        closing.close(CLOSE_CODES.normal, 'Client leave');
+        await closed;
+      } catch {
+        /* noop */
+      }
+    }
+
+    this.handlers?.resetState();
+    this.endSession();
+    this.dispatch({ type: 'disconnect' });
+  }
+
+  // Страница уходит: закрываемся без реконнекта и освобождаем вкладку
+  unload() {
+    this.closeSocket(CLOSE_CODES.goingAway, 'Page unloading');
+    this.tabLock?.release();
+    this.dispatch({ type: 'disconnect' });
+  }
+
+  // Страница снова видна: тормошим сокет и не ждём отложенный тихий реконнект
+  wake() {
+    try {
+      if (this.socket) this.transmit(this.socket, 'H');
+    } catch {
+      /* noop */
+    }
+    const state = this.machine.state;
+    if (state.phase === 'reconnect_wait' && state.reconnect.kind === 'silent') this.dispatch({ type: 'retry' });
+  }
+
+  // Забираем игру у вкладки (или соединения), которая держит её сейчас, и продолжаем её лобби
+  async playHere() {
+    const state = this.machine.state;
+    if (state.phase !== 'blocked' || state.reason === 'nickname_in_use') return;
+    const leader = await this.tabLock?.requestHandoff();
+    if (leader?.lobbyId) this.adoptLobby(leader.lobbyId);
+    this.dispatch({ type: 'tab_released' });
+    await this.connect();
+  }
+
+  clearBlock() {
+    this.setNotice(null);
+    this.dispatch({ type: 'clear_block' });
+  }
+
+  send(message: ClientMessage) {
+    if (this.spectate && SPECTATOR_BLOCKED_ACTIONS.has(message.action)) return;
+    const stamped = this.stamp(message);
+    const socket = this.socket;
+    if (socket && socket.readyState === SOCKET_STATE.OPEN) {
+      this.transmit(socket, JSON.stringify(stamped));
+      this.sequencer.markSent(stamped.seq, performance.now());
+    }
+    // Иначе ввод ждёт в секвенсоре и уйдёт, как только откроется сокет
+  }
+
+  getReplay(): ReplayFile | null {
+    return this.recorder.toReplay({
+      playerId: this.playerId,
+      nickname: this.settings.nickname.trim() || null,
+      lobbyId: this.lastLobbyId,
+      lobbyName: this.lobby?.name ?? null,
+      mode: this.settings.mode,
+      serverClockOffsetMs: serverClock.getOffset(),
+    });
+  }
+
+  async saveReplay() {
+    const replay = this.getReplay();
+    if (!replay) return;
+    try {
+      await downloadReplay(replay);
+    } catch (err) {
+      console.error('Failed to save replay:', err);
+      this.flashNotice('Could not save the replay.');
+    }
+  }
+
+  dispose() {
+    this.clearRetryTimer();
+    this.stopHeartbeat?.();
+    this.stopHeartbeat = null;
+    this.unwatchTabLock?.();
+    this.unwatchTabLock = null;
+    this.unwatchSession?.();
+    this.unwatchSession = null;
+    this.closeSocket(CLOSE_CODES.normal, 'Unmount cleanup');
+    // Незавершённые выборы бросаем: иначе брошенный клиент может их выиграть и занять вкладку
+    this.claim = null;
+    this.tabLock?.dispose();
+    if (this.noticeTimer) clearTimeout(this.noticeTimer);
+  }
+
+  private dispatch(event: ConnectionEvent) {
+    this.machine.send(event);
+  }
+
+  private handleTransition = (transition: ConnectionTransition) => {
+    this.transitionListeners.forEach((listener) => listener(transition));
+
+    const { from, to } = transition;
+    this.epoch += 1;
+    this.clearRetryTimer();
+    if (from.phase === 'connected') {
+      this.stopHeartbeat?.();
+      this.stopHeartbeat = null;
+    }
+
+    switch (to.phase) {
+      case 'authenticating':
+        this.closeSocket(CLOSE_CODES.replaced, 'Starting new connection');
+        void this.authenticate(this.epoch);
+        break;
+      case 'resolving_lobby':
+        void this.resolveLobby(this.epoch);
+        break;
+      case 'opening_socket':
+        void this.openSocket(to.lobbyId, this.epoch);
+        break;
+      case 'connected':
+        this.enterConnected(to.resumed, from.phase === 'opening_socket' && from.reconnect !== null);
+        break;
+      case 'reconnect_wait': {
+        this.closeSocket(CLOSE_CODES.normal, 'Reconnecting');
+        const epoch = this.epoch;
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
+          if (epoch === this.epoch) this.dispatch({ type: 'retry' });
+        }, reconnectDelay(to.reconnect));
+        break;
+      }
+      case 'blocked':
+        this.closeSocket(CLOSE_CODES.goingAway, 'Session blocked');
+        break;
+      default:
+        this.closeSocket(CLOSE_CODES.normal, 'Disconnected');
+        break;
+    }
+
+    this.emit();
+  };
+
+  private async authenticate(epoch: number) {
+    const nickname = this.settings.nickname.trim();
+    try {
+      const result = await this.session.authenticate(nickname);
+      if (epoch !== this.epoch) return;
+
+      this.playerId = result.playerId;
+      this.handlers?.onPlayerIdChange?.(result.playerId);
+      this.dispatch({ type: 'auth_succeeded', session: { token: result.token, playerId: result.playerId } });
+    } catch (err) {
+      if (epoch !== this.epoch) return;
+      if (err instanceof TransportError && err.status === 409) {
+        // Фиксируем блок и показываем понятную ошибку. Никаких реконнектов.
+        this.dispatch({ type: 'auth_conflict', error: err.message });
+        return;
+      }
+      console.error('Connection process failed:', err);
+      this.dispatch({ type: 'auth_failed', error: errorMessage(err, 'An unknown error occurred') });
+    }
+  }
+
+  // Токен берём у сессии, а не из состояния: за время реконнекта его могли обновить
+  private async resolveLobby(epoch: number) {
+    try {
+      const lobby = await this.session.withToken((token) =>
+        this.spectate ? this.resolveSpectatedLobby(token) : this.resolveLobbyAssignment(token),
+      );
+      if (epoch !== this.epoch) return;
+      this.lastLobbyId = lobby.id;
+      this.setLobby(lobby);
+      this.tabLock?.setLobby({ lobbyId: lobby.id, mode: this.settings.mode });
+      this.dispatch({ type: 'lobby_resolved', lobbyId: lobby.id });
+    } catch (err) {
+      if (epoch !== this.epoch) return;
+      this.dispatch({ type: 'lobby_failed', error: errorMessage(err, 'Reconnection failed.') });
+    }
+  }
+
+  private async resolveLobbyAssignment(authToken: string): Promise<{ id: string; name: string | null }> {
+    const preferredId = this.preferredLobbyId?.trim() || null;
+    if (preferredId) {
+      const joined = await this.transport.joinLobby(preferredId, authToken);
+      this.preferredLobbyId = joined.lobbyId;
+      return { id: joined.lobbyId, name: joined.name };
+    }
+
+    let candidateId = this.lastLobbyId;
+    let lastError: Error | null = null;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      if (!candidateId) {
+        const best = await this.transport.findBestLobby(this.settings.mode, authToken);
+        candidateId = best.lobbyId;
+      }
+      try {
+        const joined = await this.transport.joinLobby(candidateId, authToken);
+        this.preferredLobbyId = null;
+        return { id: joined.lobbyId, name: joined.name };
+      } catch (err) {
+        lastError = err instanceof Error ? err : new Error('Failed to join lobby.');
+        candidateId = null;
+      }
+    }
+    throw lastError ?? new Error('Could not join a lobby.');
+  }
+
+  // Наблюдатель не занимает слот: /lobbies/join пропускаем, имя лобби берём из списка
+  private async resolveSpectatedLobby(authToken: string): Promise<{ id: string; name: string | null }> {
+    const targetId = this.settings.lobbyId?.trim() || null;
+    if (!targetId) throw new Error('Pick a lobby to watch.');
+
+    let name: string | null = null;
+    try {
+      const lobbies = await this.transport.listLobbies(this.settings.mode, authToken);
+      name = lobbies.find((lobby) => lobby.id === targetId)?.name ?? null;
+    } catch {
+      /* name is cosmetic */
+    }
+    return { id: targetId, name };
+  }
+
+  private async openSocket(lobbyId: string, epoch: number) {
+    let socket: GameSocket;
+    try {
+      const token = await this.session.getToken();
+      if (epoch !== this.epoch) return;
+      if (!token) throw new Error('Not signed in');
+      socket = this.transport.openLobbySocket({
+        lobbyId,
+        token,
+        nickname: this.settings.nickname,
+        mode: this.settings.mode,
+        protocols: LOBBY_SOCKET_PROTOCOLS,
+        role: this.spectate ? 'spectator' : 'player',
+      });
+    } catch (err) {
+      if (epoch !== this.epoch) return;
+      this.dispatch({ type: 'socket_closed', code: CLOSE_CODES.abnormal, reason: errorMessage(err, 'Socket failed') });
+      return;
+    }
+    this.socket = socket;
+
+    const onMessage = createSocketMessageHandler(socket, {
+      onState: (params) => this.handlers?.onState(params),
+      onGameOver: (info) => this.handlers?.onGameOver(info),
+      onPlayerDied: (payload) => this.handlers?.onPlayerDied(payload),
+      onPlayerList: (payload) => this.handlers?.onPlayerList(payload),
+      onSync: (params) => this.handlers?.onSync(params),
+      onPlayerJoined: (payload) => this.handlers?.onPlayerJoined(payload),
+      onPlayerLeft: (payload) => this.handlers?.onPlayerLeft(payload),
+      onScoreUpdate: (payload) => this.handlers?.onScoreUpdate(payload),
+      onPowerupUpdate: (payload) => this.handlers?.onPowerupUpdate(payload),
+      onTeamSwitchDenied: (message) => this.flashNotice(message),
+      onTeamSwitched: () => this.handlers?.onTeamSwitched?.(),
+      onTick: (tick) => {
+        this.networkStats.recordTick(tick);
+        this.lastTick = { tick, receivedAt: performance.now() };
+      },
+      onPong: ({ id, serverTime }, receivedAt) => {
+        const rtt = this.networkStats.recordPong(id, receivedAt);
+        if (rtt !== null) this.lastRtt = rtt;
+        if (rtt !== null && serverTime !== null) {
+          serverClock.addSample(rtt, serverTime, localEpochNow());
+        }
+      },
+      onInputAck: (payload) => this.sequencer.acknowledge(payload),
+      onMessage: (message, receivedAt) => {
+        this.recorder.record(message, receivedAt);
+        if (this.recorder.eventCount === 1) this.emit();
+      },
+    }, (message) => this.send(message), this.inspector);
+
+    // События старых сокетов (закрытых нами или вытесненных) игнорируем
+    socket.onopen = () => {
+      if (this.socket === socket) this.dispatch({ type: 'socket_opened' });
+    };
+    socket.onmessage = (event) => {
+      if (this.socket === socket) onMessage(event);
+    };
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      // Сервер отверг токен — следующая попытка сначала перелогинится
+      if (event.code === CLOSE_CODES.unauthorized) this.session.invalidate();
+      this.dispatch({ type: 'socket_closed', code: event.code, reason: event.reason });
+    };
+    socket.onerror = (event) => {
+      // За ошибкой всегда следует close — решение о реконнекте принимается там
+      console.warn('WS error', event);
+    };
+  }
+
+  private enterConnected(resumed: boolean, reconnected: boolean) {
+    this.setNotice(null);
+    if (!resumed) this.handlers?.resetState();
+    this.handlers?.onConnected?.(resumed);
+    // После тихого реконнекта повторяем и неподтверждённые повороты
+    const socket = this.socket;
+    if (socket) {
+      const now = performance.now();
+      for (const message of this.sequencer.takeResendable(now, { includeUnacked: resumed })) {
+        try {
+          this.transmit(socket, JSON.stringify(message));
+          this.sequencer.markSent(message.seq, now);
+        } catch {
+          /* ignore resend errors */
+        }
+      }
+    }
+    // Пока нас не было, могли пропасть player_left и score_update — просим полный снапшот
+    if (reconnected) this.send({ action: 'request_sync' });
+    this.stopHeartbeat = this.startHeartbeat();
+  }
+
+  // Пинг/понг для замера RTT и периодическая публикация статистики в UI
+  private startHeartbeat() {
+    const sendPing = () => {
+      const socket = this.socket;
+      if (!socket || socket.readyState !== SOCKET_STATE.OPEN) return;
+      const message = this.stamp({ action: 'ping', id: this.networkStats.createPing(performance.now()) });
+      try {
+        this.transmit(socket, JSON.stringify(message));
+      } catch {
+        /* noop */
+      }
+    };
+
+    // Короткая серия пингов сразу после подключения — чтобы часы сошлись быстро
+    const burstTimers = Array.from({ length: CLOCK_SYNC.burstCount }, (_, index) =>
+      setTimeout(sendPing, index * CLOCK_SYNC.burstIntervalMs),
+    );
+    const pingTimer = setInterval(sendPing, NETWORK_STATS.pingIntervalMs);
+    const publishTimer = setInterval(() => {
+      const now = performance.now();
+      this.publishedNetworkStats = this.networkStats.snapshot(now);
+      this.sequencer.expire(now);
+      this.publishedInputStats = this.sequencer.snapshot();
+      this.emit();
+    }, NETWORK_STATS.publishIntervalMs);
+
+    return () => {
+      burstTimers.forEach((timer) => clearTimeout(timer));
+      clearInterval(pingTimer);
+      clearInterval(publishTimer);
+    };
+  }
+
+  private stamp(message: ClientMessage): SequencedClientMessage {
+    const now = performance.now();
+    const tick = estimateTargetTick(this.lastTick, now, this.lastRtt);
+    return this.sequencer.stamp(message, tick, now);
+  }
+
+  private transmit(socket: GameSocket, data: string) {
+    socket.send(data);
+    this.inspector?.recordOutbound(data);
+  }
+
+  private claimTab(): Promise<boolean> {
+    const tabLock = this.tabLock;
+    if (!tabLock) return Promise.resolve(true);
+    // Одни выборы на вкладку: attach и автоконнект приходят почти одновременно
+    if (this.claim) return this.claim;
+    const claim: Promise<boolean> = tabLock.acquire().then((won) => {
+      // Выборы брошены в dispose — их исход уже ничего не значит
+      if (this.claim !== claim) return false;
+      this.claim = null;
+      this.dispatch(won ? { type: 'tab_released' } : { type: 'tab_locked', error: TAB_LOCKED_ERROR });
+      return won;
+    });
+    this.claim = claim;
+    return claim;
+  }
+
+  // Лобби, которое играла другая вкладка, становится нашим предпочтительным
+  private adoptLobby(lobbyId: string) {
+    if (this.spectate) return;
+    this.preferredLobbyId = lobbyId;
+    this.lastLobbyId = lobbyId;
+  }
+
+  // Закрываем текущий сокет так, чтобы его close не дошёл до машины
+  private closeSocket(code: number, reason: string) {
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = null;
+    try {
+      socket.close(code, reason);
+    } catch {
+      /* ignore close errors */
+    }
+  }
+
+  private clearRetryTimer() {
+    if (!this.retryTimer) return;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  // При ручном выходе не пытаемся вернуться в прежнее лобби
+  private endSession() {
+    this.playerId = null;
+    this.handlers?.onPlayerIdChange?.(null);
+    this.lastLobbyId = null;
+    this.preferredLobbyId = null;
+    this.setLobby(null);
+    this.setNotice(null);
+  }
+
+  private setLobby(lobby: { id: string; name: string | null } | null) {
+    this.lobby = lobby;
+    this.emit();
+  }
+
+  private setNotice(message: string | null) {
+    if (this.noticeTimer) clearTimeout(this.noticeTimer);
+    this.noticeTimer = null;
+    this.notice = message;
+    this.emit();
+  }
+
+  private flashNotice(message: string) {
+    this.setNotice(message);
+    this.noticeTimer = setTimeout(() => this.setNotice(null), 2000);
+  }
+
+  private buildSnapshot(): ConnectionSnapshot {
+    const state = this.machine.state;
+    return {
+      state,
+      status: connectionStatus(state),
+      error: this.notice ?? connectionError(state),
+      isLocked: state.phase === 'blocked' && state.reason !== 'nickname_in_use',
+      isSilentlyReconnecting: isSilentlyReconnecting(state),
+      authBlockedReason: state.phase === 'blocked' && state.reason === 'nickname_in_use' ? state.reason : null,
+      playerId: this.playerId,
+      token: this.playerId ? (this.session.current?.token ?? null) : null,
+      lobbyId: this.lobby?.id ?? null,
+      lobbyName: this.lobby?.name ?? null,
+      networkStats: this.publishedNetworkStats,
+      inputStats: this.publishedInputStats,
+      hasReplay: this.recorder.eventCount > 0,
+    };
+  }
+
+  private emit() {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,247 @@
+// src/features/game/lib/connection/connectionMachine.ts
+// Жизненный цикл подключения к лобби как чистая машина состояний.
+// transition только решает, куда ведёт событие; эффекты — в ConnectionController
+
+import { CLIENT_STATE } from '@/features/game/config';
+
+export type ConnectionStatus =
+  | 'disconnected'
+  | 'authenticating'
+  | 'finding_lobby'
+  | 'connecting'
+  | 'connected';
+
+export interface SessionCredentials {
+  token: string;
+  playerId: string;
+}
+
+// silent оставляет игру на экране (сеть моргнула), hard показывает оверлей реконнекта
+export type ReconnectKind = 'silent' | 'hard';
+
+export interface ReconnectAttempt {
+  kind: ReconnectKind;
+  // С единицы; сбрасывается, как только сокет открылся
+  attempt: number;
+}
+
+export type BlockReason = 'nickname_in_use' | 'tab_locked' | 'replaced';
+
+export type ConnectionState =
+  | { phase: 'idle'; error: string | null }
+  | { phase: 'authenticating' }
+  | { phase: 'resolving_lobby'; session: SessionCredentials; reconnect: ReconnectAttempt | null }
+  | { phase: 'opening_socket'; session: SessionCredentials; lobbyId: string; reconnect: ReconnectAttempt | null }
+  | { phase: 'connected'; session: SessionCredentials; lobbyId: string; resumed: boolean }
+  | { phase: 'reconnect_wait'; session: SessionCredentials; reconnect: ReconnectAttempt; error: string | null }
+  | { phase: 'blocked'; reason: BlockReason; error: string };
+
+export type ConnectionPhase = ConnectionState['phase'];
+
+export type ConnectionEvent =
+  | { type: 'connect' }
+  | { type: 'auth_succeeded'; session: SessionCredentials }
+  | { type: 'auth_failed'; error: string }
+  | { type: 'auth_conflict'; error: string }
+  | { type: 'lobby_resolved'; lobbyId: string }
+  | { type: 'lobby_failed'; error: string }
+  | { type: 'socket_opened' }
+  | { type: 'socket_closed'; code: number; reason: string }
+  | { type: 'retry' }
+  | { type: 'disconnect' }
+  | { type: 'tab_locked'; error: string }
+  | { type: 'tab_released' }
+  | { type: 'clear_block' };
+
+export interface ConnectionTransition {
+  from: ConnectionState;
+  to: ConnectionState;
+  event: ConnectionEvent;
+}
+
+// Коды закрытия, которые шлёт сервер
+export const CLOSE_CODES = {
+  normal: 1000,
+  goingAway: 1001,
+  abnormal: 1006,
+  replaced: 4000,
+  // Токен отвергнут или истёк
+  unauthorized: 4001,
+  heartbeatTimeout: 4002,
+  // Клиент сам отдаёт сессию другой вкладке («Play here»)
+  handedOff: 4010,
+} as const;
+
+// Обрыв сети, пропущенный heartbeat или истёкший токен — игру не прячем, переподключаемся тихо
+const SILENT_CLOSE_CODES = new Set<number>([
+  CLOSE_CODES.abnormal,
+  CLOSE_CODES.unauthorized,
+  CLOSE_CODES.heartbeatTimeout,
+]);
+
+export const INITIAL_CONNECTION_STATE: ConnectionState = { phase: 'idle', error: null };
+
+const nextAttempt = (kind: ReconnectKind, previous: ReconnectAttempt | null): ReconnectAttempt => ({
+  kind,
+  attempt: previous?.kind === kind ? previous.attempt + 1 : 1,
+});
+
+// Следующее состояние или тот же state, если событие к нему не относится
+export const transition = (state: ConnectionState, event: ConnectionEvent): ConnectionState => {
+  switch (event.type) {
+    case 'connect':
+      // Пока идёт подключение или стоит блок — повторный connect игнорируем
+      if (state.phase === 'idle' || state.phase === 'connected' || state.phase === 'reconnect_wait') {
+        return { phase: 'authenticating' };
+      }
+      return state;
+
+    case 'auth_succeeded':
+      if (state.phase !== 'authenticating') return state;
+      return { phase: 'resolving_lobby', session: event.session, reconnect: null };
+
+    case 'auth_failed':
+      if (state.phase !== 'authenticating') return state;
+      return { phase: 'idle', error: event.error };
+
+    case 'auth_conflict':
+      if (state.phase !== 'authenticating') return state;
+      return { phase: 'blocked', reason: 'nickname_in_use', error: event.error };
+
+    case 'lobby_resolved':
+      if (state.phase !== 'resolving_lobby') return state;
+      return { phase: 'opening_socket', session: state.session, lobbyId: event.lobbyId, reconnect: state.reconnect };
+
+    case 'lobby_failed':
+      if (state.phase !== 'resolving_lobby') return state;
+      if (!state.reconnect) return { phase: 'idle', error: event.error };
+      // Переподключение не сдаётся: лобби может ожить через пару секунд
+      return {
+        phase: 'reconnect_wait',
+        session: state.session,
+        reconnect: nextAttempt(state.reconnect.kind, state.reconnect),
+        error: state.reconnect.kind === 'hard' ? event.error : null,
+      };
+
+    case 'socket_opened':
+      if (state.phase !== 'opening_socket') return state;
+      return {
+        phase: 'connected',
+        session: state.session,
+        lobbyId: state.lobbyId,
+        resumed: state.reconnect?.kind === 'silent',
+      };
+
+    case 'socket_closed': {
+      if (state.phase !== 'opening_socket' && state.phase !== 'connected') return state;
+      if (event.code === CLOSE_CODES.replaced) {
+        return { phase: 'blocked', reason: 'replaced', error: 'This game was opened somewhere else.' };
+      }
+      const previous = state.phase === 'opening_socket' ? state.reconnect : null;
+      const kind: ReconnectKind =
+        SILENT_CLOSE_CODES.has(event.code) || previous?.kind === 'silent' ? 'silent' : 'hard';
+      return {
+        phase: 'reconnect_wait',
+        session: state.session,
+        reconnect: nextAttempt(kind, previous),
+        error: kind === 'hard' ? 'Connection lost.' : null,
+      };
+    }
+
+    case 'retry':
+      if (state.phase !== 'reconnect_wait') return state;
+      return { phase: 'resolving_lobby', session: state.session, reconnect: state.reconnect };
+
+    case 'disconnect':
+      if (state.phase === 'blocked') return state;
+      if (state.phase === 'idle' && state.error === null) return state;
+      return INITIAL_CONNECTION_STATE;
+
+    case 'tab_locked':
+      if (state.phase === 'blocked' && state.reason === 'tab_locked') return state;
+      return { phase: 'blocked', reason: 'tab_locked', error: event.error };
+
+    case 'tab_released':
+      if (state.phase !== 'blocked' || state.reason === 'nickname_in_use') return state;
+      return INITIAL_CONNECTION_STATE;
+
+    case 'clear_block':
+      if (state.phase !== 'blocked' || state.reason !== 'nickname_in_use') return state;
+      return INITIAL_CONNECTION_STATE;
+
+    default:
+      return state;
+  }
+};
+
+// Пауза перед реконнектом: тихий пробует сразу и быстро наращивает паузу,
+// обычный идёт по медленному расписанию с джиттером
+export const reconnectDelay = ({ kind, attempt }: ReconnectAttempt, random: () => number = Math.random) => {
+  if (kind === 'silent') {
+    if (attempt <= 1) return 0;
+    return Math.min(CLIENT_STATE.silentReconnectMaxDelayMs, CLIENT_STATE.silentReconnectBaseDelayMs * 2 ** (attempt - 2));
+  }
+  const capped = Math.min(CLIENT_STATE.reconnectMaxDelayMs, CLIENT_STATE.reconnectBaseDelayMs * 2 ** (attempt - 1));
+  return Math.round(capped + random() * CLIENT_STATE.reconnectJitterMs);
+};
+
+const reconnectOf = (state: ConnectionState): ReconnectAttempt | null =>
+  state.phase === 'resolving_lobby' || state.phase === 'opening_socket' || state.phase === 'reconnect_wait'
+    ? state.reconnect
+    : null;
+
+// Статус для UI; во время тихого реконнекта всё ещё connected
+export const connectionStatus = (state: ConnectionState): ConnectionStatus => {
+  const reconnect = reconnectOf(state);
+  if (reconnect?.kind === 'silent') return 'connected';
+  switch (state.phase) {
+    case 'authenticating':
+      return 'authenticating';
+    case 'resolving_lobby':
+      return reconnect ? 'connecting' : 'finding_lobby';
+    case 'opening_socket':
+    case 'reconnect_wait':
+      return 'connecting';
+    case 'connected':
+      return 'connected';
+    default:
+      return 'disconnected';
+  }
+};
+
+export const isSilentlyReconnecting = (state: ConnectionState) => reconnectOf(state)?.kind === 'silent';
+
+export const connectionError = (state: ConnectionState): string | null =>
+  state.phase === 'idle' || state.phase === 'blocked' || state.phase === 'reconnect_wait' ? state.error : null;
+
+export const sessionOf = (state: ConnectionState): SessionCredentials | null =>
+  'session' in state ? state.session : null;
+
+type TransitionListener = (transition: ConnectionTransition) => void;
+
+// Хранит текущее состояние и сообщает подписчикам о каждом переходе
+export class ConnectionMachine {
+  private current: ConnectionState = INITIAL_CONNECTION_STATE;
+  private listeners = new Set<TransitionListener>();
+
+  get state() {
+    return this.current;
+  }
+
+  // false, если событие не применимо к текущему состоянию
+  send(event: ConnectionEvent) {
+    const from = this.current;
+    const to = transition(from, event);
+    if (to === from) return false;
+    this.current = to;
+    this.listeners.forEach((listener) => listener({ from, to, event }));
+    return true;
+  }
+
+  subscribe(listener: TransitionListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
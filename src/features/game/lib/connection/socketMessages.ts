@@ -0,0 +1,142 @@
+// src/features/game/lib/connection/socketMessages.ts
+// Сырые кадры сокета лобби → типизированные обработчики. Отвечает на heartbeat,
+// собирает дельты по последнему ключевому кадру и просит новый, если цепочка порвалась
+
+import { parseServerMessage } from '@/features/game/lib/client/messageParsers';
+import type { ProtocolObserver } from '@/features/game/lib/client/protocolLog';
+import { createDeltaTracker } from '@/features/game/lib/client/stateDelta';
+import { SOCKET_STATE, type GameSocket } from '@/features/game/lib/transport/types';
+import type {
+  ClientMessage,
+  GameOverInfo,
+  HotGameState,
+  InputAckPayload,
+  PlayerDiedPayload,
+  PlayerJoinedPayload,
+  PlayerLeftPayload,
+  PlayerListPayload,
+  PongPayload,
+  PowerUpUpdatePayload,
+  ScoreUpdatePayload,
+  ServerMessage,
+  SyncPayload,
+} from '@/features/game/types';
+
+// Игровая часть потока; её реализует хранилище состояния
+export interface GameMessageHandlers {
+  onState: (params: { state: HotGameState; receivedAt: number }) => void;
+  onGameOver: (info: GameOverInfo) => void;
+  onPlayerDied: (payload: PlayerDiedPayload) => void;
+  onPlayerList: (payload: PlayerListPayload) => void;
+  // Полная синхронизация: игроки, слоты, команды и состояние заменяются разом
+  onSync: (params: { payload: SyncPayload; receivedAt: number }) => void;
+  onPlayerJoined: (payload: PlayerJoinedPayload) => void;
+  onPlayerLeft: (payload: PlayerLeftPayload) => void;
+  onScoreUpdate: (payload: ScoreUpdatePayload) => void;
+  onPowerupUpdate: (payload: PowerUpUpdatePayload) => void;
+}
+
+export interface SocketMessageHandlers extends GameMessageHandlers {
+  onTeamSwitchDenied: (message: string) => void;
+  onTeamSwitched: () => void;
+  onTick: (tick: number) => void;
+  onPong: (payload: PongPayload, receivedAt: number) => void;
+  onInputAck: (payload: InputAckPayload) => void;
+  // Каждое разобранное сообщение; дельты уже собраны в полные state
+  onMessage: (message: ServerMessage, receivedAt: number) => void;
+}
+
+export const createSocketMessageHandler = (
+  socket: GameSocket,
+  handlers: SocketMessageHandlers,
+  send: (message: ClientMessage) => void,
+  // Инспектор для разработчиков: получает каждый кадр со временем декодирования
+  inspector: ProtocolObserver | null = null,
+) => {
+  // Снапшоты восстанавливаются из дельт в пределах одного сокета
+  const deltaTracker = createDeltaTracker();
+
+  return (event: MessageEvent<string | ArrayBuffer>) => {
+    if (event.data === 'h' && socket.readyState === SOCKET_STATE.OPEN) {
+      inspector?.recordInbound(event.data, null, 0);
+      socket.send('H');
+      inspector?.recordOutbound('H');
+      return;
+    }
+
+    const decodeStartedAt = performance.now();
+    const message = parseServerMessage(event.data);
+    inspector?.recordInbound(event.data, message, performance.now() - decodeStartedAt);
+    if (!message) {
+      console.warn('WS non-JSON or unknown message ignored');
+      return;
+    }
+
+    const receivedAt = performance.now();
+    if (message.type !== 'state_delta' && message.type !== 'sync') handlers.onMessage(message, receivedAt);
+
+    switch (message.type) {
+      case 'state':
+        deltaTracker.acceptKeyframe(message.payload);
+        handlers.onTick(message.payload.tick);
+        handlers.onState({ state: message.payload, receivedAt });
+        break;
+      case 'state_delta': {
+        const result = deltaTracker.applyDelta(message.payload);
+        if (result.ok) {
+          handlers.onMessage({ type: 'state', payload: result.state }, receivedAt);
+          handlers.onTick(result.state.tick);
+          handlers.onState({ state: result.state, receivedAt });
+        } else if (result.requestKeyframe) {
+          send({ action: 'request_keyframe', sinceTick: result.lastTick });
+        }
+        break;
+      }
+      case 'game_over':
+        handlers.onGameOver(message.payload);
+        break;
+      case 'player_died':
+        handlers.onPlayerDied(message.payload);
+        break;
+      case 'player_list':
+        handlers.onPlayerList(message.payload);
+        break;
+      case 'sync': {
+        const { state, ...playerList } = message.payload;
+        // В запись ресинк попадает как обычные список игроков и ключевой кадр
+        handlers.onMessage({ type: 'player_list', payload: playerList }, receivedAt);
+        handlers.onMessage({ type: 'state', payload: state }, receivedAt);
+        deltaTracker.acceptKeyframe(state);
+        handlers.onTick(state.tick);
+        handlers.onSync({ payload: message.payload, receivedAt });
+        break;
+      }
+      case 'player_joined':
+        handlers.onPlayerJoined(message.payload);
+        break;
+      case 'player_left':
+        handlers.onPlayerLeft(message.payload);
+        break;
+      case 'score_update':
+        handlers.onScoreUpdate(message.payload);
+        break;
+      case 'powerup_update':
+        handlers.onPowerupUpdate(message.payload);
+        break;
+      case 'team_switched':
+        handlers.onTeamSwitched();
+        break;
+      case 'team_switch_denied':
+        handlers.onTeamSwitchDenied('Cannot switch team right now.');
+        break;
+      case 'pong':
+        handlers.onPong(message.payload, receivedAt);
+        break;
+      case 'input_ack':
+        handlers.onInputAck(message.payload);
+        break;
+      default:
+        break;
+    }
+  };
+};
@@ -0,0 +1,257 @@
+// src/features/game/lib/connection/tabLock.ts
+// Одна играющая вкладка на браузер, договариваемся через BroadcastChannel.
+// Лидер шлёт пульс со своим лобби; без пульса его место занимает другая вкладка
+
+import { TABS } from '@/features/game/config';
+import type { GameModeKey } from '@/features/game/types';
+
+export type TabLockOwner = 'other' | 'none';
+
+// Что лидер последним сообщил о своей игре
+export interface TabLeaderInfo {
+  lobbyId: string | null;
+  mode: GameModeKey | null;
+}
+
+export interface TabLock {
+  // Выборы; false, если лидирует или победила другая вкладка
+  acquire(): Promise<boolean>;
+  release(): void;
+  // Отпускает вкладку и закрывает канал; незавершённый acquire вернёт false.
+  // После этого acquire и watch начинают всё заново
+  dispose(): void;
+  // Зовёт обратно, когда лидером стала другая вкладка или лидер пропал
+  watch(onChange: (owner: TabLockOwner, leader: TabLeaderInfo | null) => void): () => void;
+  // Лидер: лобби, о котором узнают остальные вкладки
+  setLobby(info: TabLeaderInfo): void;
+  // Просим лидера уступить. Вернёт его лобби, когда он отпустит вкладку (или истечёт аренда),
+  // и лидером станет эта вкладка
+  requestHandoff(): Promise<TabLeaderInfo | null>;
+  // Лидер: отдать игру другой вкладке и вернуть то, во что играли
+  onHandoffRequest(handler: () => TabLeaderInfo): () => void;
+}
+
+type TabMessage =
+  | { type: 'heartbeat'; tabId: string; info: TabLeaderInfo }
+  | { type: 'claim'; tabId: string; at: number }
+  | { type: 'resign'; tabId: string; successorId: string | null; info: TabLeaderInfo }
+  | { type: 'handoff_request'; tabId: string };
+
+interface Claim {
+  tabId: string;
+  at: number;
+}
+
+const EMPTY_INFO: TabLeaderInfo = { lobbyId: null, mode: null };
+
+// Раньше заявился — тот и лидер; при равенстве решает id
+const claimOrder = (a: Claim, b: Claim) => a.at - b.at || (a.tabId < b.tabId ? -1 : a.tabId > b.tabId ? 1 : 0);
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class BroadcastTabLock implements TabLock {
+  readonly tabId: string;
+
+  private channel: BroadcastChannel | null = null;
+  private leading = false;
+  private leader: { tabId: string; info: TabLeaderInfo } | null = null;
+  private info: TabLeaderInfo = EMPTY_INFO;
+  private claims: Claim[] | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private leaseTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchers = new Set<(owner: TabLockOwner, leader: TabLeaderInfo | null) => void>();
+  private handoffHandler: (() => TabLeaderInfo) | null = null;
+  private handoffWaiter: ((info: TabLeaderInfo | null) => void) | null = null;
+  private handoffTimer: ReturnType<typeof setTimeout> | null = null;
+  // Растёт на каждом dispose: выборы, начатые до него, проигрывают
+  private epoch = 0;
+
+  constructor(tabId: string = crypto.randomUUID()) {
+    this.tabId = tabId;
+  }
+
+  async acquire() {
+    if (this.leading) return true;
+    // Канал открываем лениво: на сервере при пререндере он не нужен
+    if (!this.open()) {
+      this.leading = true;
+      return true;
+    }
+    if (this.leader) return false;
+
+    const epoch = this.epoch;
+    const own: Claim = { tabId: this.tabId, at: Date.now() };
+    this.claims = [own];
+    this.post({ type: 'claim', ...own });
+    await sleep(TABS.electionWindowMs);
+    if (epoch !== this.epoch) return false;
+    const claims = this.claims ?? [own];
+    this.claims = null;
+
+    if (this.leading) return true;
+    if (this.leader || claims.sort(claimOrder)[0].tabId !== this.tabId) return false;
+    this.becomeLeader();
+    return true;
+  }
+
+  release() {
+    if (!this.leading) return;
+    this.stepDown();
+    this.post({ type: 'resign', tabId: this.tabId, successorId: null, info: this.info });
+  }
+
+  dispose() {
+    this.release();
+    this.epoch += 1;
+    this.claims = null;
+    this.forgetLeader();
+    if (this.handoffTimer) clearTimeout(this.handoffTimer);
+    this.handoffTimer = null;
+    this.handoffWaiter?.(null);
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  watch(onChange: (owner: TabLockOwner, leader: TabLeaderInfo | null) => void) {
+    this.open();
+    this.watchers.add(onChange);
+    return () => {
+      this.watchers.delete(onChange);
+    };
+  }
+
+  setLobby(info: TabLeaderInfo) {
+    this.info = info;
+    if (this.leading) this.sendHeartbeat();
+  }
+
+  requestHandoff(): Promise<TabLeaderInfo | null> {
+    if (!this.open() || this.leading) return Promise.resolve(this.info);
+    const leader = this.leader;
+    if (!leader) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      // Лидер не ответил — считаем, что вкладка зависла, и забираем сессию сами
+      this.handoffTimer = setTimeout(() => {
+        this.handoffTimer = null;
+        this.handoffWaiter = null;
+        this.forgetLeader();
+        this.becomeLeader();
+        resolve(leader.info);
+      }, TABS.handoffTimeoutMs);
+      this.handoffWaiter = (info) => {
+        if (this.handoffTimer) clearTimeout(this.handoffTimer);
+        this.handoffTimer = null;
+        this.handoffWaiter = null;
+        resolve(info);
+      };
+      this.post({ type: 'handoff_request', tabId: this.tabId });
+    });
+  }
+
+  onHandoffRequest(handler: () => TabLeaderInfo) {
+    this.handoffHandler = handler;
+    return () => {
+      if (this.handoffHandler === handler) this.handoffHandler = null;
+    };
+  }
+
+  private open() {
+    if (this.channel) return true;
+    if (typeof BroadcastChannel === 'undefined') return false;
+    this.channel = new BroadcastChannel(TABS.channelName);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleMessage(event.data);
+    return true;
+  }
+
+  private handleMessage(message: TabMessage) {
+    if (!message || message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'heartbeat':
+        if (this.leading) {
+          // Два лидера (разрыв при выборах): остаётся тот, чей id меньше
+          if (this.tabId < message.tabId) {
+            this.sendHeartbeat();
+            return;
+          }
+          this.stepDown();
+        }
+        this.observeLeader(message.tabId, message.info);
+        break;
+      case 'claim':
+        if (this.leading) this.sendHeartbeat();
+        else this.claims?.push({ tabId: message.tabId, at: message.at });
+        break;
+      case 'resign':
+        if (this.leader && this.leader.tabId !== message.tabId) return;
+        if (message.successorId === this.tabId) {
+          this.forgetLeader();
+          this.becomeLeader();
+          this.handoffWaiter?.(message.info);
+        } else if (message.successorId) {
+          this.observeLeader(message.successorId, message.info);
+        } else {
+          this.forgetLeader();
+          this.notify('none', message.info);
+        }
+        break;
+      case 'handoff_request':
+        if (this.leading) this.handOver(message.tabId);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private handOver(successorId: string) {
+    const info = this.handoffHandler?.() ?? this.info;
+    this.stepDown();
+    this.post({ type: 'resign', tabId: this.tabId, successorId, info });
+    this.observeLeader(successorId, info);
+  }
+
+  private observeLeader(tabId: string, info: TabLeaderInfo) {
+    const isNew = this.leader?.tabId !== tabId;
+    this.leader = { tabId, info };
+    if (this.leaseTimer) clearTimeout(this.leaseTimer);
+    // Нет пульса дольше аренды — лидер упал, место свободно
+    this.leaseTimer = setTimeout(() => {
+      this.leaseTimer = null;
+      const lost = this.leader;
+      this.leader = null;
+      this.notify('none', lost?.info ?? null);
+    }, TABS.leaseMs);
+    if (isNew) this.notify('other', info);
+  }
+
+  private forgetLeader() {
+    this.leader = null;
+    if (this.leaseTimer) clearTimeout(this.leaseTimer);
+    this.leaseTimer = null;
+  }
+
+  private becomeLeader() {
+    this.leading = true;
+    this.sendHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), TABS.heartbeatIntervalMs);
+  }
+
+  private stepDown() {
+    this.leading = false;
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
+  private sendHeartbeat() {
+    this.post({ type: 'heartbeat', tabId: this.tabId, info: this.info });
+  }
+
+  private post(message: TabMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  private notify(owner: TabLockOwner, leader: TabLeaderInfo | null) {
+    this.watchers.forEach((watcher) => watcher(owner, leader));
+  }
+}
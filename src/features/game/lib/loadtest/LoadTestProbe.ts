@@ -0,0 +1,70 @@
+// src/features/game/lib/loadtest/LoadTestProbe.ts
+// Счётчики кадров клиента нагрузочного теста: сообщения и байты в обе стороны,
+// время декодирования и отказы парсера. Подключается как наблюдатель протокола
+
+import { LOAD_TEST } from '@/features/game/config';
+import type { ProtocolObserver } from '@/features/game/lib/client/protocolLog';
+import type { ServerMessage } from '@/features/game/types';
+
+export interface ProbeSnapshot {
+  messagesIn: number;
+  messagesOut: number;
+  bytesIn: number;
+  rejected: number;
+  decodeAvgMs: number | null;
+  decodeP95Ms: number | null;
+  decodeMaxMs: number | null;
+}
+
+const textEncoder = new TextEncoder();
+
+const byteLength = (data: string | ArrayBuffer) =>
+  typeof data === 'string' ? textEncoder.encode(data).byteLength : data.byteLength;
+
+export class LoadTestProbe implements ProtocolObserver {
+  private readonly sampleSize: number;
+  private messagesIn = 0;
+  private messagesOut = 0;
+  private bytesIn = 0;
+  private rejected = 0;
+  private decodeTotal = 0;
+  private decodeCount = 0;
+  private decodeMax = 0;
+  // Кольцо последних замеров: на длинном прогоне все не храним
+  private samples: number[] = [];
+  private nextSample = 0;
+
+  constructor(sampleSize: number = LOAD_TEST.decodeSamples) {
+    this.sampleSize = sampleSize;
+  }
+
+  recordInbound(data: string | ArrayBuffer, message: ServerMessage | null, decodeMs: number) {
+    this.messagesIn += 1;
+    this.bytesIn += byteLength(data);
+    // Сердцебиение не декодируется — в статистику декодирования не попадает
+    if (data === 'h') return;
+    if (!message) this.rejected += 1;
+    this.decodeTotal += decodeMs;
+    this.decodeCount += 1;
+    this.decodeMax = Math.max(this.decodeMax, decodeMs);
+    this.samples[this.nextSample] = decodeMs;
+    this.nextSample = (this.nextSample + 1) % this.sampleSize;
+  }
+
+  recordOutbound() {
+    this.messagesOut += 1;
+  }
+
+  snapshot(): ProbeSnapshot {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    return {
+      messagesIn: this.messagesIn,
+      messagesOut: this.messagesOut,
+      bytesIn: this.bytesIn,
+      rejected: this.rejected,
+      decodeAvgMs: this.decodeCount ? this.decodeTotal / this.decodeCount : null,
+      decodeP95Ms: sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : null,
+      decodeMaxMs: this.decodeCount ? this.decodeMax : null,
+    };
+  }
+}
@@ -0,0 +1,178 @@
+// src/features/game/lib/loadtest/LoadTestRunner.ts
+// Запускает N SlizeClient на одном транспорте и рулит ими каждый тик. Каждый сам
+// логинится и входит в лобби, как вкладка браузера, — сервер видит обычных игроков
+
+import { LOAD_TEST, LOOPBACK } from '@/features/game/config';
+import { serverClock } from '@/features/game/lib/client/serverClock';
+import type { ConnectionStatus } from '@/features/game/lib/connection/connectionMachine';
+import { LoadTestProbe } from '@/features/game/lib/loadtest/LoadTestProbe';
+import { createSteering, type Steering, type SteeringPolicy } from '@/features/game/lib/loadtest/steering';
+import { createRng } from '@/features/game/lib/math';
+import { SlizeClient } from '@/features/game/lib/sdk/SlizeClient';
+import { SessionManager } from '@/features/game/lib/session/SessionManager';
+import type { GameTransport } from '@/features/game/lib/transport/types';
+import type { GameModeKey, GameState } from '@/features/game/types';
+
+export interface LoadTestOptions {
+  transport: GameTransport;
+  players: number;
+  mode: GameModeKey;
+  // Все игроки входят в это лобби; null — каждый через find-best
+  lobbyId: string | null;
+  policy: SteeringPolicy;
+  nicknamePrefix?: string;
+  rampUpMs?: number;
+  seed?: number;
+}
+
+export interface PlayerReport {
+  nickname: string;
+  status: ConnectionStatus;
+  playerId: string | null;
+  lobbyId: string | null;
+  error: string | null;
+  // Секунды с первого успешного подключения
+  uptimeSec: number;
+  messagesIn: number;
+  messagesPerSec: number;
+  messagesOut: number;
+  bytesIn: number;
+  rejected: number;
+  decodeAvgMs: number | null;
+  decodeP95Ms: number | null;
+  decodeMaxMs: number | null;
+  // Сколько раз терялся открытый сокет
+  drops: number;
+  // Сколько раз потерянный сокет вернулся
+  reconnects: number;
+  ticksReceived: number;
+  tickGaps: number;
+  missedTicks: number;
+  rttMs: number | null;
+}
+
+export interface LoadTestReport {
+  elapsedSec: number;
+  connected: number;
+  players: PlayerReport[];
+}
+
+interface LoadTestPlayer {
+  nickname: string;
+  client: SlizeClient;
+  probe: LoadTestProbe;
+  connectedAt: number | null;
+  drops: number;
+  reconnects: number;
+  cleanup: (() => void)[];
+}
+
+export class LoadTestRunner {
+  private readonly options: LoadTestOptions;
+  private players: LoadTestPlayer[] = [];
+  private startedAt = 0;
+  private stopped = false;
+
+  constructor(options: LoadTestOptions) {
+    this.options = options;
+  }
+
+  // Подключает игроков по одному; резолвится, когда запущен последний
+  async start() {
+    const { players, rampUpMs = LOAD_TEST.rampUpMs, seed = LOOPBACK.seed } = this.options;
+    this.startedAt = performance.now();
+    for (let index = 0; index < players && !this.stopped; index++) {
+      this.spawn(index, seed + index);
+      if (index < players - 1) await new Promise((resolve) => setTimeout(resolve, rampUpMs));
+    }
+  }
+
+  // Чисто выходит из лобби и закрывает всех клиентов
+  async stop() {
+    this.stopped = true;
+    await Promise.all(
+      this.players.map(async (player) => {
+        player.cleanup.forEach((stop) => stop());
+        await player.client.dispatch({ type: 'leave' }).catch(() => undefined);
+        player.client.dispose();
+      }),
+    );
+  }
+
+  report(): LoadTestReport {
+    const now = performance.now();
+    const players = this.players.map((player) => this.describe(player, now));
+    return {
+      elapsedSec: (now - this.startedAt) / 1000,
+      connected: players.filter((player) => player.status === 'connected').length,
+      players,
+    };
+  }
+
+  private spawn(index: number, seed: number) {
+    const { transport, mode, lobbyId, policy, nicknamePrefix = LOAD_TEST.nicknamePrefix } = this.options;
+    const probe = new LoadTestProbe();
+    // Своя сессия у каждого: общий токен сервер посчитал бы одним игроком
+    const client = new SlizeClient({ transport, session: new SessionManager(transport, null), tabLock: null, inspector: probe });
+    const player: LoadTestPlayer = {
+      nickname: `${nicknamePrefix}${index + 1}`,
+      client,
+      probe,
+      connectedAt: null,
+      drops: 0,
+      reconnects: 0,
+      cleanup: [],
+    };
+
+    player.cleanup.push(
+      client.connection.onTransition(({ from, to }) => {
+        if (from.phase === 'connected' && to.phase === 'reconnect_wait') player.drops += 1;
+        if (to.phase !== 'connected') return;
+        if (player.connectedAt === null) player.connectedAt = performance.now();
+        else player.reconnects += 1;
+      }),
+      this.steer(client, createSteering(policy, createRng(seed))),
+    );
+    this.players.push(player);
+
+    void client.dispatch({ type: 'configure', settings: { nickname: player.nickname, mode, lobbyId } });
+    void client.dispatch({ type: 'connect' });
+  }
+
+  // Решение принимаем на каждый новый кадр — ровно как живой игрок раз в тик
+  private steer(client: SlizeClient, steering: Steering) {
+    let lastState: GameState | null = null;
+    return client.subscribe(() => {
+      const { connection, game } = client.getSnapshot();
+      const state = game.currentState;
+      if (!state || state === lastState || !connection.playerId) return;
+      lastState = state;
+      for (const message of steering(state, connection.playerId, serverClock.now())) {
+        if (message.action === 'turn') void client.dispatch({ type: 'turn', direction: message.direction });
+        else if (message.action === 'use_powerup') void client.dispatch({ type: 'use_powerup', slot: message.slot });
+      }
+    });
+  }
+
+  private describe(player: LoadTestPlayer, now: number): PlayerReport {
+    const { connection } = player.client.getSnapshot();
+    const frames = player.probe.snapshot();
+    const uptimeSec = player.connectedAt === null ? 0 : (now - player.connectedAt) / 1000;
+    return {
+      nickname: player.nickname,
+      status: connection.status,
+      playerId: connection.playerId,
+      lobbyId: connection.lobbyId,
+      error: connection.error,
+      uptimeSec,
+      ...frames,
+      messagesPerSec: uptimeSec > 0 ? frames.messagesIn / uptimeSec : 0,
+      drops: player.drops,
+      reconnects: player.reconnects,
+      ticksReceived: connection.networkStats.ticksReceived,
+      tickGaps: connection.networkStats.tickGaps,
+      missedTicks: connection.networkStats.missedTicks,
+      rttMs: connection.networkStats.rttMs,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+// src/features/game/lib/loadtest/steering.ts
+// Как игрок нагрузочного теста выбирает ввод на тик: случайные повороты или жадный бот
+
+import { LOAD_TEST } from '@/features/game/config';
+import { createBot } from '@/features/game/lib/bots';
+import type { Direction } from '@/features/game/lib/client/direction';
+import { randomInt, type Rng } from '@/features/game/lib/math';
+import type { ClientMessage, GameState } from '@/features/game/types';
+
+export type SteeringPolicy = 'random' | 'greedy';
+
+export const STEERING_POLICIES: SteeringPolicy[] = ['random', 'greedy'];
+
+export const isSteeringPolicy = (value: string): value is SteeringPolicy =>
+  (STEERING_POLICIES as string[]).includes(value);
+
+// Ответ на состояние — сообщения к отправке; недопустимое клиент отбросит сам
+export type Steering = (state: GameState, playerId: string, now: number) => ClientMessage[];
+
+const DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+
+export const createSteering = (policy: SteeringPolicy, rng: Rng): Steering => {
+  if (policy === 'greedy') {
+    const bot = createBot('easy', rng);
+    return (state, playerId, now) => bot.decide({ state, playerId, now });
+  }
+  // Развороты и повторы отсеет очередь поворотов клиента
+  return () =>
+    rng() < LOAD_TEST.randomTurnChance ? [{ action: 'turn', direction: DIRECTIONS[randomInt(rng, DIRECTIONS.length)] }] : [];
+};
@@ -6,3 +6,19 @@ export const lerp = (from: number, to: number, t: number) => from + (to - from)
 export const easeInOutCubic = (t: number) =>
   t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 
+
+// Детерминированный PRNG (mulberry32): одинаковый seed — одинаковая последовательность
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export type Rng = ReturnType<typeof createRng>;
+
+export const randomInt = (rng: Rng, maxExclusive: number) => Math.floor(rng() * maxExclusive);
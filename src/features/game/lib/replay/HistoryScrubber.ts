@@ -0,0 +1,93 @@
+// src/features/game/lib/replay/HistoryScrubber.ts
+// Перемотка по последним состояниям живой игры. Пауза замораживает копию истории,
+// игра под ней идёт дальше; до resume холст рисует выбранный тик через sample
+
+import { serverClock } from '@/features/game/lib/client/serverClock';
+import type { SnapshotFrame } from '@/features/game/lib/client/snapshotBuffer';
+import type { HistoryEntry, StateHistory } from '@/features/game/lib/sdk/StateHistory';
+
+export interface HistoryScrubberState {
+  paused: boolean;
+  // Выбранная запись в entries; сразу после паузы — самая свежая
+  index: number;
+  entries: readonly HistoryEntry[];
+}
+
+const IDLE: HistoryScrubberState = { paused: false, index: 0, entries: [] };
+
+export class HistoryScrubber {
+  private readonly history: StateHistory;
+
+  private pausedAt = 0;
+  private serverTimeAtPause = 0;
+  private snapshot: HistoryScrubberState = IDLE;
+  private listeners = new Set<() => void>();
+
+  constructor(history: StateHistory) {
+    this.history = history;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  get currentEntry(): HistoryEntry | null {
+    return this.snapshot.entries[this.snapshot.index] ?? null;
+  }
+
+  pause() {
+    if (this.snapshot.paused) return;
+    const entries = this.history.entries();
+    if (!entries.length) return;
+    this.pausedAt = performance.now();
+    this.serverTimeAtPause = serverClock.now();
+    this.update({ paused: true, entries, index: entries.length - 1 });
+  }
+
+  resume() {
+    if (!this.snapshot.paused) return;
+    this.update(IDLE);
+  }
+
+  toggle() {
+    if (this.snapshot.paused) this.resume();
+    else this.pause();
+  }
+
+  seek(index: number) {
+    if (!this.snapshot.paused) return;
+    const { entries } = this.snapshot;
+    const next = Math.min(entries.length - 1, Math.max(0, Math.round(index)));
+    if (next !== this.snapshot.index) this.update({ index: next });
+  }
+
+  // Шаг на целые тики; из живого режима сначала ставит паузу
+  step(delta: number) {
+    this.pause();
+    this.seek(this.snapshot.index + delta);
+  }
+
+  // Кадр для холста: выбранный тик как есть, без интерполяции
+  sample = (): SnapshotFrame => ({
+    previous: null,
+    current: this.currentEntry?.state ?? null,
+    interpolation: 1,
+  });
+
+  // Серверное время на момент прихода выбранного тика — по смещению от момента паузы
+  serverNow = () => {
+    const entry = this.currentEntry;
+    if (!entry) return serverClock.now();
+    return this.serverTimeAtPause - (this.pausedAt - entry.receivedAt);
+  };
+
+  private update(patch: Partial<HistoryScrubberState>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,152 @@
+// src/features/game/lib/replay/ReplayPlayer.ts
+// Часы воспроизведения над ReplayTimeline. Рендерер каждый кадр берёт пару из sample,
+// UI подписывается на крупные изменения (кадр, пауза, скорость)
+
+import type { SnapshotFrame } from '@/features/game/lib/client/snapshotBuffer';
+import type { ReplayFrame, ReplayTimeline } from '@/features/game/lib/replay/replayTimeline';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+export interface ReplayPlaybackState {
+  frameIndex: number;
+  playing: boolean;
+  speed: ReplaySpeed;
+}
+
+const canInterpolate = (from: ReplayFrame, to: ReplayFrame) =>
+  from.round === to.round && !from.gameOver && !to.gameOver;
+
+export class ReplayPlayer {
+  readonly timeline: ReplayTimeline;
+
+  private position = 0;
+  private lastSampleAt: number | null = null;
+  private snapshot: ReplayPlaybackState = { frameIndex: 0, playing: false, speed: 1 };
+  private listeners = new Set<() => void>();
+
+  constructor(timeline: ReplayTimeline) {
+    this.timeline = timeline;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  get currentFrame(): ReplayFrame | null {
+    return this.timeline.frames[this.snapshot.frameIndex] ?? null;
+  }
+
+  play() {
+    if (!this.timeline.frames.length) return;
+    // С конца записи начинаем заново
+    if (this.position >= this.timeline.durationMs) this.position = 0;
+    this.lastSampleAt = null;
+    this.update({ playing: true });
+  }
+
+  pause() {
+    this.update({ playing: false });
+  }
+
+  toggle() {
+    if (this.snapshot.playing) this.pause();
+    else this.play();
+  }
+
+  setSpeed(speed: ReplaySpeed) {
+    this.update({ speed });
+  }
+
+  seek(frameIndex: number) {
+    const frames = this.timeline.frames;
+    if (!frames.length) return;
+    const index = Math.min(frames.length - 1, Math.max(0, Math.round(frameIndex)));
+    this.position = frames[index].at;
+    this.lastSampleAt = null;
+    this.update({ frameIndex: index });
+  }
+
+  // Пауза и шаг на целые кадры (по тику сервера)
+  step(delta: number) {
+    this.pause();
+    this.seek(this.snapshot.frameIndex + delta);
+  }
+
+  // Двигает часы к now (performance.now()) и отдаёт пару кадров для отрисовки
+  sample = (now: number): SnapshotFrame => {
+    const frames = this.timeline.frames;
+    if (!frames.length) return { previous: null, current: null, interpolation: 1 };
+
+    if (this.snapshot.playing) {
+      if (this.lastSampleAt !== null) this.position += (now - this.lastSampleAt) * this.snapshot.speed;
+      this.lastSampleAt = now;
+      if (this.position >= this.timeline.durationMs) {
+        this.position = this.timeline.durationMs;
+        this.update({ playing: false });
+      }
+    }
+
+    const index = this.indexAt(this.position);
+    if (index !== this.snapshot.frameIndex) this.update({ frameIndex: index });
+
+    const from = frames[index];
+    const to = frames[index + 1];
+    if (!to || this.position <= from.at || !canInterpolate(from, to)) {
+      const previous = frames[index - 1];
+      return {
+        previous: previous && canInterpolate(previous, from) ? previous.state : null,
+        current: from.state,
+        interpolation: 1,
+      };
+    }
+    return {
+      previous: from.state,
+      current: to.state,
+      interpolation: (this.position - from.at) / (to.at - from.at),
+    };
+  };
+
+  // Серверное время в точке воспроизведения — для таймеров на холсте
+  serverNow = () => {
+    const frames = this.timeline.frames;
+    if (!frames.length) return 0;
+    const index = this.indexAt(this.position);
+    const from = frames[index];
+    const to = frames[index + 1];
+    if (!to || to.at === from.at) return from.serverTime + (this.position - from.at);
+    const progress = (this.position - from.at) / (to.at - from.at);
+    return from.serverTime + (to.serverTime - from.serverTime) * progress;
+  };
+
+  // Последний кадр, чья позиция не позже заданной (двоичный поиск)
+  private indexAt(position: number) {
+    const frames = this.timeline.frames;
+    let low = 0;
+    let high = frames.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (frames[mid].at <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+
+  private update(patch: Partial<ReplayPlaybackState>) {
+    const next = { ...this.snapshot, ...patch };
+    if (
+      next.frameIndex === this.snapshot.frameIndex &&
+      next.playing === this.snapshot.playing &&
+      next.speed === this.snapshot.speed
+    ) {
+      return;
+    }
+    this.snapshot = next;
+    this.listeners.forEach((listener) => listener());
+  }
+}
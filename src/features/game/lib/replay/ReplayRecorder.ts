@@ -0,0 +1,63 @@
+// src/features/game/lib/replay/ReplayRecorder.ts
+// Копит разобранные сообщения сервера за сессию. Дельты хранятся уже собранными
+// (полными state), так что реплей не зависит от ключевого кадра
+
+import { REPLAY } from '@/features/game/config';
+import { localEpochNow } from '@/features/game/lib/client/serverClock';
+import { REPLAY_FORMAT, REPLAY_VERSION, type ReplayEvent, type ReplayFile } from '@/features/game/lib/replay/replayFile';
+import type { ServerMessage } from '@/features/game/types';
+
+export type ReplayMetadata = Pick<
+  ReplayFile,
+  'playerId' | 'nickname' | 'lobbyId' | 'lobbyName' | 'mode' | 'serverClockOffsetMs'
+>;
+
+export class ReplayRecorder {
+  private readonly maxEvents: number;
+  private events: ReplayEvent[] = [];
+  private startedAt = 0;
+  private startedAtMonotonic = 0;
+  private truncated = false;
+
+  constructor(maxEvents: number = REPLAY.maxEvents) {
+    this.maxEvents = maxEvents;
+  }
+
+  get eventCount() {
+    return this.events.length;
+  }
+
+  // receivedAt — из performance.now(), как и все времена прихода на клиенте
+  record(message: ServerMessage, receivedAt: number) {
+    if (this.events.length >= this.maxEvents) {
+      this.truncated = true;
+      return;
+    }
+    if (!this.events.length) {
+      this.startedAt = localEpochNow() - (performance.now() - receivedAt);
+      this.startedAtMonotonic = receivedAt;
+    }
+    this.events.push({ t: Math.round(receivedAt - this.startedAtMonotonic), message });
+  }
+
+  // Снимок всего записанного; запись после этого продолжается
+  toReplay(metadata: ReplayMetadata): ReplayFile | null {
+    if (!this.events.length) return null;
+    return {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      startedAt: this.startedAt,
+      durationMs: this.events[this.events.length - 1].t,
+      truncated: this.truncated,
+      ...metadata,
+      events: this.events.slice(),
+    };
+  }
+
+  reset() {
+    this.events = [];
+    this.startedAt = 0;
+    this.startedAtMonotonic = 0;
+    this.truncated = false;
+  }
+}
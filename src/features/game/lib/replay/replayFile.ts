@@ -0,0 +1,105 @@
+// src/features/game/lib/replay/replayFile.ts
+// Формат файла реплея: версионированный JSON с разобранными сообщениями сервера,
+// сжатый gzip через Compression Streams API
+
+import { REPLAY } from '@/features/game/config';
+import type { GameModeKey, ServerMessage } from '@/features/game/types';
+
+export const REPLAY_FORMAT = 'slize-replay';
+export const REPLAY_VERSION = 1;
+
+export interface ReplayEvent {
+  // Мс с начала записи по локальным монотонным часам
+  t: number;
+  message: ServerMessage;
+}
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  // Локальное время первого события (см. localEpochNow)
+  startedAt: number;
+  durationMs: number;
+  // Оценка часов сервера на момент сохранения: время сервера ≈ startedAt + t + offset
+  serverClockOffsetMs: number;
+  playerId: string | null;
+  nickname: string | null;
+  lobbyId: string | null;
+  lobbyName: string | null;
+  mode: GameModeKey;
+  // true, если запись упёрлась в REPLAY.maxEvents и остановилась
+  truncated: boolean;
+  events: ReplayEvent[];
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const transform = (source: Blob, stream: GenericTransformStream) =>
+  new Response(source.stream().pipeThrough(stream)).arrayBuffer();
+
+export const encodeReplay = async (replay: ReplayFile): Promise<Blob> => {
+  const compressed = await transform(new Blob([JSON.stringify(replay)]), new CompressionStream('gzip'));
+  return new Blob([compressed], { type: 'application/gzip' });
+};
+
+const isEvent = (value: unknown): value is ReplayEvent => {
+  if (!value || typeof value !== 'object') return false;
+  const { t, message } = value as { t?: unknown; message?: { type?: unknown; payload?: unknown } };
+  return typeof t === 'number' && !!message && typeof message.type === 'string' && typeof message.payload === 'object';
+};
+
+// Принимает реплей в gzip или обычном JSON; на всё остальное — ReplayFormatError
+export const decodeReplay = async (data: Blob | ArrayBuffer): Promise<ReplayFile> => {
+  let buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const head = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  if (head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1]) {
+    try {
+      buffer = await transform(new Blob([buffer]), new DecompressionStream('gzip'));
+    } catch {
+      throw new ReplayFormatError('Replay file is corrupted.');
+    }
+  }
+
+  let parsed: Partial<ReplayFile>;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(buffer)) as Partial<ReplayFile>;
+  } catch {
+    throw new ReplayFormatError('Not a replay file.');
+  }
+
+  if (parsed?.format !== REPLAY_FORMAT) throw new ReplayFormatError('Not a replay file.');
+  if (typeof parsed.version !== 'number' || parsed.version > REPLAY_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version: ${String(parsed.version)}.`);
+  }
+  if (!Array.isArray(parsed.events) || !parsed.events.every(isEvent)) {
+    throw new ReplayFormatError('Replay events are malformed.');
+  }
+  return parsed as ReplayFile;
+};
+
+export const replayFileName = (replay: ReplayFile) => {
+  const stamp = new Date(replay.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  const lobby = (replay.lobbyName ?? replay.lobbyId ?? 'match').replace(/[^\w-]+/g, '_');
+  return `slize-${lobby}-${stamp}${REPLAY.fileExtension}`;
+};
+
+// Сохраняет реплей через временный object URL. Только в браузере
+export const downloadReplay = async (replay: ReplayFile) => {
+  const blob = await encodeReplay(replay);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = replayFileName(replay);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Даём браузеру начать загрузку, прежде чем освобождать URL
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,165 @@
+// src/features/game/lib/replay/replayTimeline.ts
+// Сворачивает записанный поток в кадры: один GameState на тик (плюс стоп-кадр на каждый
+// конец игры) на шкале воспроизведения в мс при скорости 1x
+
+import { GAME_TIMING } from '@/features/game/config';
+import type { ReplayFile } from '@/features/game/lib/replay/replayFile';
+import type { GameOverInfo, GameState, HotGameState, PlayerInfo } from '@/features/game/types';
+
+export interface ReplayFrame {
+  index: number;
+  // Растёт, когда тик сервера идёт назад (новый раунд на сервере, сбрасывающем тики)
+  round: number;
+  tick: number;
+  // Позиция кадра на шкале, мс при 1x
+  at: number;
+  // Оценка серверного времени кадра — для таймеров эффектов и баннеров
+  serverTime: number;
+  state: GameState;
+  gameOver: GameOverInfo | null;
+  // Погибшие с предыдущего кадра
+  deaths: string[];
+}
+
+export interface ReplayParticipant {
+  playerId: string;
+  nickname: string;
+}
+
+export interface ReplayTimeline {
+  frames: ReplayFrame[];
+  participants: ReplayParticipant[];
+  durationMs: number;
+}
+
+const mergeHotState = (
+  hot: HotGameState,
+  players: Record<string, PlayerInfo>,
+  slotToPlayerId: Map<number, string>,
+): GameState => {
+  const resolve = (identifier: number | string) =>
+    typeof identifier === 'string' ? identifier : slotToPlayerId.get(identifier) ?? String(identifier);
+  return {
+    ...hot,
+    snakes: hot.snakes.map((snake) => ({ ...snake, id: resolve(snake.id) })),
+    projectiles: hot.projectiles.map((projectile) => ({ ...projectile, ownerId: resolve(projectile.ownerId) })),
+    players,
+    gameOver: undefined,
+  };
+};
+
+export const buildReplayTimeline = (replay: ReplayFile): ReplayTimeline => {
+  const tickMs = GAME_TIMING.serverTickRate;
+  const frames: ReplayFrame[] = [];
+  const nicknames = new Map<string, string>();
+
+  let players: Record<string, PlayerInfo> = {};
+  let slotToPlayerId = new Map<number, string>();
+  let pendingDeaths: string[] = [];
+  let lastEventT = 0;
+
+  const serverTimeAt = (t: number) => replay.startedAt + t + replay.serverClockOffsetMs;
+
+  const setPlayers = (next: Record<string, PlayerInfo>) => {
+    players = next;
+    for (const [id, info] of Object.entries(next)) nicknames.set(id, info.nickname);
+    // Как и в живом клиенте: очки и бонусы сразу видны в последнем кадре
+    const last = frames[frames.length - 1];
+    if (last) last.state = { ...last.state, players };
+  };
+
+  const updatePlayer = (playerId: string, patch: Partial<PlayerInfo>) => {
+    const existing = players[playerId];
+    if (existing) setPlayers({ ...players, [playerId]: { ...existing, ...patch } });
+  };
+
+  for (const { t, message } of replay.events) {
+    switch (message.type) {
+      case 'player_list':
+        slotToPlayerId = new Map(message.payload.slotAssignments.map(({ slotId, playerId }) => [slotId, playerId]));
+        setPlayers({ ...message.payload.players });
+        break;
+      case 'player_joined':
+        slotToPlayerId.set(message.payload.slotId, message.payload.playerId);
+        setPlayers({ ...players, [message.payload.playerId]: message.payload.player });
+        break;
+      case 'player_left': {
+        const next = { ...players };
+        delete next[message.payload.playerId];
+        slotToPlayerId.delete(message.payload.slotId);
+        setPlayers(next);
+        break;
+      }
+      case 'score_update':
+        updatePlayer(message.payload.playerId, { score: message.payload.score });
+        break;
+      case 'powerup_update':
+        updatePlayer(message.payload.playerId, {
+          powerUpSlots: message.payload.powerUpSlots,
+          activeEffects: message.payload.activeEffects,
+        });
+        break;
+      case 'player_died':
+        pendingDeaths.push(message.payload.playerId);
+        break;
+      case 'game_over': {
+        const last = frames[frames.length - 1];
+        if (!last) break;
+        frames.push({
+          ...last,
+          index: frames.length,
+          at: last.at + Math.max(tickMs, t - lastEventT),
+          serverTime: serverTimeAt(t),
+          gameOver: message.payload,
+          deaths: pendingDeaths,
+        });
+        pendingDeaths = [];
+        lastEventT = t;
+        break;
+      }
+      case 'state': {
+        const state = mergeHotState(message.payload, players, slotToPlayerId);
+        const last = frames[frames.length - 1];
+
+        // Повтор того же тика (ключевой кадр после реконнекта) — просто обновляем кадр
+        if (last && !last.gameOver && state.tick === last.tick) {
+          last.state = state;
+          break;
+        }
+
+        let round = 0;
+        let at = 0;
+        if (last) {
+          round = state.tick < last.tick ? last.round + 1 : last.round;
+          const continuous = round === last.round && !last.gameOver;
+          // Внутри раунда время идёт по тикам (без сетевого джиттера), паузы берём как записаны
+          at = continuous
+            ? last.at + (state.tick - last.tick) * tickMs
+            : last.at + Math.max(tickMs, t - lastEventT);
+        }
+
+        frames.push({
+          index: frames.length,
+          round,
+          tick: state.tick,
+          at,
+          serverTime: serverTimeAt(t),
+          state,
+          gameOver: null,
+          deaths: pendingDeaths,
+        });
+        pendingDeaths = [];
+        lastEventT = t;
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return {
+    frames,
+    participants: [...nicknames].map(([playerId, nickname]) => ({ playerId, nickname })),
+    durationMs: frames[frames.length - 1]?.at ?? 0,
+  };
+};
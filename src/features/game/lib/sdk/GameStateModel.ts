@@ -0,0 +1,306 @@
+// src/features/game/lib/sdk/GameStateModel.ts
+// Игровое состояние клиента: игроки, слоты, собранные GameState, конец игры и погибшие.
+// Таблица игроков неизменяемая и общая — селекторы сравнивают срезы по ссылке
+
+import type { GameMessageHandlers } from '@/features/game/lib/connection/socketMessages';
+import { inferDeathCause } from '@/features/game/lib/sdk/deathCause';
+import { StateHistory } from '@/features/game/lib/sdk/StateHistory';
+import type {
+  DeathCause,
+  GameOverInfo,
+  GameState,
+  HotGameState,
+  ServerMessage,
+  PlayerDiedPayload,
+  PlayerInfo,
+  PlayerJoinedPayload,
+  PlayerLeftPayload,
+  PlayerListPayload,
+  PowerUpUpdatePayload,
+  ScoreUpdatePayload,
+  SlotAssignment,
+  SyncPayload,
+} from '@/features/game/types';
+
+export interface GameStateSnapshot {
+  previousState: GameState | null;
+  currentState: GameState | null;
+  // performance.now() прихода currentState
+  lastStateTimestamp: number;
+  gameOverInfo: GameOverInfo | null;
+  // Только что погибшие змейки, рисуются умирающими
+  deadPlayerIds: Set<string>;
+}
+
+export type GameStateEvent =
+  | {
+      type: 'player_died';
+      playerId: string;
+      // Где змейку видели последний раз; null, если не видели
+      head: { x: number; y: number } | null;
+      // От сервера или выведена из последнего состояния, если сервер не прислал
+      cause: DeathCause | null;
+      causeInferred: boolean;
+    }
+  | { type: 'game_over'; info: GameOverInfo };
+
+type GameStateEventListener = (event: GameStateEvent) => void;
+
+// Сколько погибшая змейка рисуется как умирающая
+const DEATH_HIGHLIGHT_MS = 500;
+
+const EMPTY_SNAPSHOT: GameStateSnapshot = {
+  previousState: null,
+  currentState: null,
+  lastStateTimestamp: 0,
+  gameOverInfo: null,
+  deadPlayerIds: new Set(),
+};
+
+const clonePlayerInfo = (player: PlayerInfo): PlayerInfo => ({
+  nickname: player.nickname,
+  score: player.score,
+  powerUpSlots: [...player.powerUpSlots],
+  teamId: player.teamId,
+  activeEffects: {
+    speedBoostUntil: player.activeEffects.speedBoostUntil,
+    isGhostUntil: player.activeEffects.isGhostUntil,
+  },
+});
+
+const clonePlayers = (players: Record<string, PlayerInfo>) => {
+  const next: Record<string, PlayerInfo> = {};
+  for (const [id, info] of Object.entries(players)) {
+    next[id] = clonePlayerInfo(info);
+  }
+  return next;
+};
+
+export class GameStateModel implements GameMessageHandlers {
+  // Последние собранные состояния, новые в конце; вне снимка, поэтому чтение не вызывает рендеров
+  readonly history = new StateHistory();
+
+  private players: Record<string, PlayerInfo> = {};
+  private slotToPlayerId = new Map<number, string>();
+  private playerIdToSlot = new Map<string, number>();
+  private isGameOverActive = false;
+  private deathTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  private snapshot: GameStateSnapshot = EMPTY_SNAPSHOT;
+  private listeners = new Set<() => void>();
+  private eventListeners = new Set<GameStateEventListener>();
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  onEvent(listener: GameStateEventListener) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  reset = () => {
+    this.clearDeathTimers();
+    this.players = {};
+    this.slotToPlayerId = new Map();
+    this.playerIdToSlot = new Map();
+    this.isGameOverActive = false;
+    this.history.clear();
+    this.update(EMPTY_SNAPSHOT);
+  };
+
+  onState = ({ state, receivedAt }: { state: HotGameState; receivedAt: number }) => {
+    const patch: Partial<GameStateSnapshot> = {};
+    if (this.isGameOverActive) {
+      // Новый раунд пошёл — прячем баннер
+      patch.gameOverInfo = null;
+      this.isGameOverActive = false;
+    }
+    const currentState = this.mergeHotState(state);
+    this.history.recordState(currentState, receivedAt);
+    this.update({
+      ...patch,
+      previousState: this.snapshot.currentState,
+      currentState,
+      lastStateTimestamp: receivedAt,
+    });
+  };
+
+  onPlayerList = (payload: PlayerListPayload) => {
+    const { players, slotAssignments } = payload;
+    this.recordEvent({ type: 'player_list', payload });
+    this.replacePlayers(players, slotAssignments);
+    this.publishPlayers();
+  };
+
+  // Ресинк после реконнекта: игроки, слоты, команды и состояние меняются разом,
+  // без промежуточного кадра со старой таблицей игроков
+  onSync = ({ payload: { players, slotAssignments, state }, receivedAt }: { payload: SyncPayload; receivedAt: number }) => {
+    this.replacePlayers(players, slotAssignments);
+    this.clearDeathTimers();
+    this.isGameOverActive = Boolean(state.gameOver);
+    const currentState = this.mergeHotState(state);
+    this.history.recordState(currentState, receivedAt);
+    this.update({
+      // Интерполировать от состояния до обрыва нечего — начинаем с чистого листа
+      previousState: null,
+      currentState,
+      lastStateTimestamp: receivedAt,
+      gameOverInfo: state.gameOver ?? null,
+      deadPlayerIds: new Set(),
+    });
+  };
+
+  onPlayerJoined = (payload: PlayerJoinedPayload) => {
+    const { playerId, slotId, player } = payload;
+    this.recordEvent({ type: 'player_joined', payload });
+    this.players = { ...this.players, [playerId]: clonePlayerInfo(player) };
+    this.slotToPlayerId.set(slotId, playerId);
+    this.playerIdToSlot.set(playerId, slotId);
+    this.publishPlayers();
+  };
+
+  onPlayerLeft = (payload: PlayerLeftPayload) => {
+    const { playerId, slotId } = payload;
+    this.recordEvent({ type: 'player_left', payload });
+    if (!(playerId in this.players)) return;
+    const next = { ...this.players };
+    delete next[playerId];
+    this.players = next;
+    this.slotToPlayerId.delete(slotId);
+    this.playerIdToSlot.delete(playerId);
+    this.publishPlayers();
+  };
+
+  onScoreUpdate = (payload: ScoreUpdatePayload) => {
+    const { playerId, score } = payload;
+    this.recordEvent({ type: 'score_update', payload });
+    const existing = this.players[playerId];
+    if (!existing || existing.score === score) return;
+    this.players = { ...this.players, [playerId]: { ...existing, score } };
+    this.publishPlayers();
+  };
+
+  onPowerupUpdate = (payload: PowerUpUpdatePayload) => {
+    const { playerId, powerUpSlots, activeEffects } = payload;
+    this.recordEvent({ type: 'powerup_update', payload });
+    const existing = this.players[playerId];
+    if (!existing) return;
+
+    const sameSlots =
+      existing.powerUpSlots.length === powerUpSlots.length &&
+      existing.powerUpSlots.every((slot, index) => slot === powerUpSlots[index]);
+    const sameEffects =
+      existing.activeEffects.speedBoostUntil === activeEffects.speedBoostUntil &&
+      existing.activeEffects.isGhostUntil === activeEffects.isGhostUntil;
+    if (sameSlots && sameEffects) return;
+
+    this.players = {
+      ...this.players,
+      [playerId]: {
+        ...existing,
+        powerUpSlots: [...powerUpSlots],
+        activeEffects: {
+          speedBoostUntil: activeEffects.speedBoostUntil,
+          isGhostUntil: activeEffects.isGhostUntil,
+        },
+      },
+    };
+    this.publishPlayers();
+  };
+
+  onGameOver = (info: GameOverInfo) => {
+    this.isGameOverActive = true;
+    this.recordEvent({ type: 'game_over', payload: info });
+    this.update({ gameOverInfo: info });
+    this.emitEvent({ type: 'game_over', info });
+  };
+
+  onPlayerDied = (payload: PlayerDiedPayload) => {
+    const { playerId } = payload;
+    this.recordEvent({ type: 'player_died', payload });
+    const { previousState, currentState } = this.snapshot;
+    // В текущем кадре змейки уже может не быть — берём последний, где она ещё жива
+    const lastSeen = [currentState, previousState].find((state) =>
+      state?.snakes.some((snake) => snake.id === playerId && snake.body.length > 0),
+    );
+    const head = lastSeen?.snakes.find((snake) => snake.id === playerId)?.body[0] ?? null;
+    const inferred = payload.cause ? null : lastSeen ? inferDeathCause(lastSeen, playerId) : null;
+    this.emitEvent({
+      type: 'player_died',
+      playerId,
+      head,
+      cause: payload.cause ?? inferred,
+      causeInferred: inferred !== null,
+    });
+
+    this.update({ deadPlayerIds: new Set(this.snapshot.deadPlayerIds).add(playerId) });
+    const timer = setTimeout(() => {
+      this.deathTimers.delete(timer);
+      const next = new Set(this.snapshot.deadPlayerIds);
+      next.delete(playerId);
+      this.update({ deadPlayerIds: next });
+    }, DEATH_HIGHLIGHT_MS);
+    this.deathTimers.add(timer);
+  };
+
+  dispose() {
+    this.clearDeathTimers();
+  }
+
+  // Слоты в горячем состоянии превращаем в id игроков по текущей таблице
+  private mergeHotState(hotState: HotGameState): GameState {
+    const resolvePlayerId = (identifier: number | string): string => {
+      if (typeof identifier === 'string') return identifier;
+      return this.slotToPlayerId.get(identifier) ?? String(identifier);
+    };
+
+    return {
+      ...hotState,
+      snakes: hotState.snakes.map((snake) => ({ ...snake, id: resolvePlayerId(snake.id) })),
+      projectiles: hotState.projectiles.map((projectile) => ({
+        ...projectile,
+        ownerId: resolvePlayerId(projectile.ownerId),
+      })),
+      players: this.players,
+      gameOver: undefined,
+    };
+  }
+
+  private replacePlayers(players: Record<string, PlayerInfo>, slotAssignments: SlotAssignment[]) {
+    this.players = clonePlayers(players);
+    this.slotToPlayerId = new Map(slotAssignments.map(({ slotId, playerId }) => [slotId, playerId] as const));
+    this.playerIdToSlot = new Map(slotAssignments.map(({ slotId, playerId }) => [playerId, slotId] as const));
+  }
+
+  private publishPlayers() {
+    const { currentState } = this.snapshot;
+    if (!currentState) return;
+    this.update({ currentState: { ...currentState, players: this.players } });
+  }
+
+  private clearDeathTimers() {
+    this.deathTimers.forEach((timer) => clearTimeout(timer));
+    this.deathTimers.clear();
+  }
+
+  private recordEvent(message: ServerMessage) {
+    this.history.recordEvent(message, performance.now());
+  }
+
+  private update(patch: Partial<GameStateSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private emitEvent(event: GameStateEvent) {
+    this.eventListeners.forEach((listener) => listener(event));
+  }
+}
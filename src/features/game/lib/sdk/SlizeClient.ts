@@ -0,0 +1,223 @@
+// src/features/game/lib/sdk/SlizeClient.ts
+// Игровой клиент без UI: сессия, лобби и сокет, модель состояния и цикл поворотов.
+// Хуки, боты и нагрузочный тест управляют им через dispatch и читают getSnapshot
+
+import { CLIENT_STATE, GAME_TIMING } from '@/features/game/config';
+import { findPlayerDirection, type Direction } from '@/features/game/lib/client/direction';
+import { TurnQueue } from '@/features/game/lib/client/turnQueue';
+import {
+  ConnectionController,
+  type ConnectionControllerOptions,
+  type ConnectionSnapshot,
+  type ConnectionSettings,
+} from '@/features/game/lib/connection/ConnectionController';
+import { GameStateModel, type GameStateEvent, type GameStateSnapshot } from '@/features/game/lib/sdk/GameStateModel';
+import type { TeamId } from '@/features/game/types';
+
+export type SlizeClientOptions = ConnectionControllerOptions;
+
+export interface SlizeClientSnapshot {
+  connection: ConnectionSnapshot;
+  game: GameStateSnapshot;
+}
+
+export type SlizeClientAction =
+  | { type: 'configure'; settings: Partial<ConnectionSettings> }
+  | { type: 'connect' }
+  | { type: 'disconnect' }
+  | { type: 'leave' }
+  | { type: 'play_here' }
+  | { type: 'clear_block' }
+  | { type: 'turn'; direction: Direction }
+  | { type: 'use_powerup'; slot: number }
+  | { type: 'switch_team'; teamId: TeamId }
+  | { type: 'save_replay' };
+
+export type SlizeClientEvent =
+  | GameStateEvent
+  // Сокет открыт; resumed — после тихого реконнекта с сохранённой сессией
+  | { type: 'connected'; resumed: boolean }
+  | { type: 'team_switched' };
+
+type SlizeClientEventListener = (event: SlizeClientEvent) => void;
+
+export class SlizeClient {
+  readonly connection: ConnectionController;
+  readonly game = new GameStateModel();
+  // Последний отправленный поворот; по нему рендерер предсказывает свою змейку
+  readonly lastSentDirection: { current: Direction | null } = { current: null };
+
+  private readonly spectate: boolean;
+  private readonly turnQueue = new TurnQueue(CLIENT_STATE.turnQueueSize);
+  private turnTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastTurnSentAt = Number.NEGATIVE_INFINITY;
+  private myDirection: Direction | null = null;
+  private lastStatus: ConnectionSnapshot['status'];
+
+  private snapshot: SlizeClientSnapshot;
+  private listeners = new Set<() => void>();
+  private eventListeners = new Set<SlizeClientEventListener>();
+
+  constructor(options: SlizeClientOptions) {
+    this.spectate = options.spectate ?? false;
+    this.connection = new ConnectionController(options);
+    this.connection.setHandlers({
+      onState: this.game.onState,
+      onGameOver: this.game.onGameOver,
+      onPlayerDied: this.game.onPlayerDied,
+      onPlayerList: this.game.onPlayerList,
+      onSync: this.game.onSync,
+      onPlayerJoined: this.game.onPlayerJoined,
+      onPlayerLeft: this.game.onPlayerLeft,
+      onScoreUpdate: this.game.onScoreUpdate,
+      onPowerupUpdate: this.game.onPowerupUpdate,
+      resetState: () => {
+        this.game.reset();
+        this.myDirection = null;
+        this.lastSentDirection.current = null;
+      },
+      onConnected: (resumed) => this.emitEvent({ type: 'connected', resumed }),
+      onTeamSwitched: () => this.emitEvent({ type: 'team_switched' }),
+    });
+
+    this.snapshot = { connection: this.connection.getSnapshot(), game: this.game.getSnapshot() };
+    this.lastStatus = this.snapshot.connection.status;
+    this.connection.subscribe(this.handleChange);
+    this.game.subscribe(this.handleChange);
+    this.game.onEvent((event) => this.emitEvent(event));
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  // Разовые события для звуков и эффектов; в снимок не входят
+  onEvent(listener: SlizeClientEventListener) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  async dispatch(action: SlizeClientAction): Promise<void> {
+    switch (action.type) {
+      case 'configure':
+        this.connection.configure(action.settings);
+        return;
+      case 'connect':
+        return this.connection.connect();
+      case 'disconnect':
+        this.connection.disconnect();
+        return;
+      case 'leave':
+        return this.connection.leave();
+      case 'play_here':
+        return this.connection.playHere();
+      case 'clear_block':
+        this.connection.clearBlock();
+        return;
+      case 'turn':
+        this.queueTurn(action.direction);
+        return;
+      case 'use_powerup':
+        this.usePowerUp(action.slot);
+        return;
+      case 'switch_team':
+        this.connection.send({ action: 'switch_team', teamId: action.teamId });
+        return;
+      case 'save_replay':
+        return this.connection.saveReplay();
+    }
+  }
+
+  // Вступаем в выборы вкладок и следим за лидером; вызывается, когда клиент начали использовать
+  attach() {
+    this.connection.attach();
+  }
+
+  // Страница уходит: закрываемся без реконнекта и освобождаем вкладку
+  unload() {
+    this.connection.unload();
+  }
+
+  // Страница снова видна
+  wake() {
+    this.connection.wake();
+  }
+
+  // Закрываем сокет и останавливаем таймеры; attach возвращает клиент к жизни
+  dispose() {
+    this.stopTurnLoop();
+    this.connection.dispose();
+    this.game.dispose();
+  }
+
+  private queueTurn(direction: Direction) {
+    if (this.spectate || this.snapshot.connection.status !== 'connected') return;
+    // Сверяем с последним отправленным: сервер мог ещё не успеть его применить
+    const queued = this.turnQueue.push(direction, this.lastSentDirection.current ?? this.myDirection);
+    if (queued && !this.turnTimer) this.flushTurns();
+  }
+
+  // Не больше одного поворота за тик: иначе сервер применит только последний
+  private flushTurns = () => {
+    this.turnTimer = null;
+    if (!this.turnQueue.size) return;
+    const now = performance.now();
+    const wait = this.lastTurnSentAt + GAME_TIMING.serverTickRate - now;
+    if (wait > 0) {
+      this.turnTimer = setTimeout(this.flushTurns, wait);
+      return;
+    }
+    const direction = this.turnQueue.shift();
+    if (direction) {
+      this.connection.send({ action: 'turn', direction });
+      this.lastTurnSentAt = now;
+      this.lastSentDirection.current = direction;
+    }
+    if (this.turnQueue.size) this.turnTimer = setTimeout(this.flushTurns, GAME_TIMING.serverTickRate);
+  };
+
+  private stopTurnLoop() {
+    if (this.turnTimer) clearTimeout(this.turnTimer);
+    this.turnTimer = null;
+    this.turnQueue.clear();
+  }
+
+  private usePowerUp(slot: number) {
+    const { connection, game } = this.snapshot;
+    if (this.spectate || !connection.playerId) return;
+    const me = game.currentState?.players[connection.playerId];
+    if (!me?.powerUpSlots[slot]) return;
+    this.connection.send({ action: 'use_powerup', slot });
+  }
+
+  private handleChange = () => {
+    const connection = this.connection.getSnapshot();
+    const game = this.game.getSnapshot();
+    if (connection === this.snapshot.connection && game === this.snapshot.game) return;
+
+    // Повороты, набранные до обрыва, в новой сессии уже неуместны
+    if (connection.status !== this.lastStatus) {
+      this.lastStatus = connection.status;
+      this.stopTurnLoop();
+    }
+    if (game.currentState !== this.snapshot.game.currentState || connection.playerId !== this.snapshot.connection.playerId) {
+      this.myDirection = findPlayerDirection(game.currentState, connection.playerId);
+      // Змейки нет (погибли или ещё не появились) — следующий поворот сверять не с чем
+      if (!this.myDirection) this.lastSentDirection.current = null;
+    }
+
+    this.snapshot = { connection, game };
+    this.listeners.forEach((listener) => listener());
+  };
+
+  private emitEvent(event: SlizeClientEvent) {
+    this.eventListeners.forEach((listener) => listener(event));
+  }
+}
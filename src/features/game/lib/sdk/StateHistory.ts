@@ -0,0 +1,67 @@
+// src/features/game/lib/sdk/StateHistory.ts
+// Кольцевой буфер последних GameState с сообщениями, пришедшими между ними.
+// Состояния неизменяемы, так что запись держит только ссылки
+
+import { STATE_HISTORY } from '@/features/game/config';
+import type { GameState, ServerMessage } from '@/features/game/types';
+
+export interface HistoryEvent {
+  message: ServerMessage;
+  // performance.now() прихода
+  receivedAt: number;
+}
+
+export interface HistoryEntry {
+  state: GameState;
+  receivedAt: number;
+  // Сообщения после состояния предыдущей записи и до этого
+  events: HistoryEvent[];
+}
+
+export class StateHistory {
+  private readonly capacity: number;
+  private readonly maxPendingEvents: number;
+  private ring: (HistoryEntry | undefined)[];
+  private next = 0;
+  private count = 0;
+  private pending: HistoryEvent[] = [];
+
+  constructor(capacity: number = STATE_HISTORY.maxSnapshots, maxPendingEvents: number = STATE_HISTORY.maxPendingEvents) {
+    this.capacity = capacity;
+    this.maxPendingEvents = maxPendingEvents;
+    this.ring = new Array(capacity);
+  }
+
+  get size() {
+    return this.count;
+  }
+
+  recordState(state: GameState, receivedAt: number) {
+    this.ring[this.next] = { state, receivedAt, events: this.pending };
+    this.pending = [];
+    this.next = (this.next + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  recordEvent(message: ServerMessage, receivedAt: number) {
+    if (this.pending.length >= this.maxPendingEvents) this.pending.shift();
+    this.pending.push({ message, receivedAt });
+  }
+
+  // От старых к новым; копия — не меняется, пока приходят новые состояния
+  entries(): HistoryEntry[] {
+    const result: HistoryEntry[] = [];
+    for (let offset = this.count; offset > 0; offset--) {
+      const entry = this.ring[(this.next - offset + this.capacity) % this.capacity];
+      if (entry) result.push(entry);
+    }
+    return result;
+  }
+
+  clear() {
+    this.ring = new Array(this.capacity);
+    this.next = 0;
+    this.count = 0;
+    this.pending = [];
+  }
+}
@@ -0,0 +1,75 @@
+// src/features/game/lib/sdk/deathCause.ts
+// Догадка о причине смерти, если сервер прислал player_died без неё:
+// смотрим, куда шла голова в последнем живом состоянии и что было в той клетке
+
+import { getDirectionFromSnake, type Direction } from '@/features/game/lib/client/direction';
+import type { DeathCause, GameState } from '@/features/game/types';
+
+type Cell = { x: number; y: number };
+
+const STEP: Record<Direction, Cell> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+// Снаряд за тик пролетает пару клеток — ищем его чуть дальше головы
+const PROJECTILE_REACH = 2;
+
+const sameCell = (a: Cell, b: Cell) => a.x === b.x && a.y === b.y;
+
+const advance = (cell: Cell, direction: Direction, steps = 1): Cell => ({
+  x: cell.x + STEP[direction].x * steps,
+  y: cell.y + STEP[direction].y * steps,
+});
+
+const isDeadlyBlock = (state: GameState, cell: Cell) =>
+  Boolean(state.blocks?.some((block) => block.state !== 'warning' && sameCell(block, cell)));
+
+// state — последнее состояние, где змейка ещё есть; null, если рядом ничто не объясняет смерть
+export const inferDeathCause = (state: GameState, playerId: string): DeathCause | null => {
+  const snake = state.snakes.find((item) => item.id === playerId);
+  const head = snake?.body[0];
+  if (!snake || !head) return null;
+
+  const direction = getDirectionFromSnake(snake);
+  // Без направления (змейка из одной клетки) проверяем только клетку головы
+  const next = direction ? advance(head, direction) : head;
+
+  if (next.x < 0 || next.y < 0 || next.x >= state.gridSize || next.y >= state.gridSize) {
+    return { kind: 'wall' };
+  }
+  if (isDeadlyBlock(state, next) || snake.body.some((cell) => isDeadlyBlock(state, cell))) {
+    return { kind: 'block' };
+  }
+
+  for (const other of state.snakes) {
+    if (other.id === playerId || !other.body.length) continue;
+    const otherDirection = getDirectionFromSnake(other);
+    const headOn = otherDirection !== null && sameCell(advance(other.body[0], otherDirection), next);
+    if (headOn || other.body.some((cell) => sameCell(cell, next))) {
+      return { kind: 'snake', killerId: other.id };
+    }
+  }
+
+  // Хвост за тик уходит, поэтому в него врезаться нельзя
+  if (direction && snake.body.slice(1, -1).some((cell) => sameCell(cell, next))) {
+    return { kind: 'self' };
+  }
+
+  const shooter = state.projectiles.find((projectile) => {
+    if (projectile.ownerId === playerId) return false;
+    for (let steps = 0; steps <= PROJECTILE_REACH; steps++) {
+      if (sameCell(advance(projectile.position, projectile.direction, steps), head)) return true;
+    }
+    return false;
+  });
+  if (shooter) return { kind: 'projectile', killerId: shooter.ownerId };
+
+  const resize = state.pendingResize;
+  if (resize && snake.body.some((cell) => cell.x >= resize.to || cell.y >= resize.to)) {
+    return { kind: 'arena_shrink' };
+  }
+  return null;
+};
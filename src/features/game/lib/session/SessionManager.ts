@@ -0,0 +1,187 @@
+// src/features/game/lib/session/SessionManager.ts
+// Единственный владелец токена: хранит его с playerId, знает срок, заранее (или после 401)
+// перелогинивается через транспорт и рассылает новый токен всем потребителям
+
+import { SESSION } from '@/features/game/config';
+import { TransportError, type GameTransport } from '@/features/game/lib/transport/types';
+
+export interface StoredSession {
+  token: string;
+  playerId: string;
+  nickname: string | null;
+  // Epoch мс; null, если срок не сообщили ни сервер, ни токен, 0 — сервер токен отверг
+  expiresAt: number | null;
+}
+
+export type SessionStorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const STORAGE_KEYS = {
+  token: 'slize_token',
+  playerId: 'slize_playerId',
+  nickname: 'slize_nickname',
+  expiresAt: 'slize_token_expires_at',
+} as const;
+
+const defaultStorage = (): SessionStorageLike | null => (typeof localStorage === 'undefined' ? null : localStorage);
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+};
+
+// exp из JWT в epoch мс; null для непрозрачных токенов
+export const readTokenExpiry = (token: string): number | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const claims = JSON.parse(decodeBase64Url(parts[1])) as { exp?: unknown };
+    return typeof claims.exp === 'number' && Number.isFinite(claims.exp) ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isUnauthorized = (error: unknown) => error instanceof TransportError && error.status === 401;
+
+export class SessionManager {
+  private readonly transport: GameTransport;
+  private readonly storage: SessionStorageLike | null;
+
+  // Без хранилища (Node, приватный режим) сессия живёт только в памяти
+  private memory: StoredSession | null = null;
+  private refreshing: Promise<StoredSession> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(session: StoredSession | null) => void>();
+
+  constructor(transport: GameTransport, storage: SessionStorageLike | null = defaultStorage()) {
+    this.transport = transport;
+    this.storage = storage;
+  }
+
+  // Сохранённая сессия, валиден её токен или нет
+  get current(): StoredSession | null {
+    if (!this.storage) return this.memory;
+    try {
+      const token = this.storage.getItem(STORAGE_KEYS.token);
+      const playerId = this.storage.getItem(STORAGE_KEYS.playerId);
+      if (!token || !playerId) return null;
+      // 0 — токен отвергнут сервером (invalidate), а не «срок неизвестен»
+      const storedExpiry = Number(this.storage.getItem(STORAGE_KEYS.expiresAt) || NaN);
+      return {
+        token,
+        playerId,
+        nickname: this.storage.getItem(STORAGE_KEYS.nickname),
+        expiresAt: Number.isFinite(storedExpiry) ? storedExpiry : readTokenExpiry(token),
+      };
+    } catch {
+      return this.memory;
+    }
+  }
+
+  subscribe(listener: (session: StoredSession | null) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Вход под nickname с прежними playerId и токеном, чтобы сервер узнал игрока.
+  // Если ник занят — отказ со статусом 409
+  async authenticate(nickname: string): Promise<StoredSession> {
+    const previous = this.current;
+    const result = await this.transport.authenticate({
+      nickname,
+      playerId: previous?.playerId,
+      token: previous?.token ?? null,
+    });
+    return this.store({
+      token: result.token,
+      playerId: result.playerId,
+      nickname: result.nickname ?? nickname,
+      expiresAt: result.expiresAt ?? readTokenExpiry(result.token),
+    });
+  }
+
+  // Перелогин с сохранённым playerId; одновременные вызовы делят один запрос
+  refresh(): Promise<StoredSession> {
+    if (this.refreshing) return this.refreshing;
+    const previous = this.current;
+    if (!previous?.nickname) return Promise.reject(new TransportError('Session expired. Please sign in again.', 401));
+
+    this.refreshing = this.authenticate(previous.nickname).finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  // Токен, который не истекает вот-вот (при нужде сначала обновляем); null, если входа не было
+  async getToken(): Promise<string | null> {
+    const session = this.current;
+    if (!session) return null;
+    if (session.expiresAt !== null && session.expiresAt - Date.now() <= SESSION.refreshLeewayMs) {
+      return (await this.refresh()).token;
+    }
+    return session.token;
+  }
+
+  // Авторизованный вызов; на 401 обновляем токен и повторяем один раз
+  async withToken<T>(call: (token: string) => Promise<T>): Promise<T> {
+    const token = await this.getToken();
+    if (!token) throw new TransportError('Sign in first.', 401);
+    try {
+      return await call(token);
+    } catch (err) {
+      if (!isUnauthorized(err)) throw err;
+      return call((await this.refresh()).token);
+    }
+  }
+
+  // Сервер отверг токен вне withToken; при следующем использовании обновим
+  invalidate() {
+    const session = this.current;
+    if (session) this.store({ ...session, expiresAt: 0 }, { schedule: false });
+  }
+
+  dispose() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  private store(session: StoredSession, { schedule = true }: { schedule?: boolean } = {}) {
+    this.memory = session;
+    try {
+      this.storage?.setItem(STORAGE_KEYS.token, session.token);
+      this.storage?.setItem(STORAGE_KEYS.playerId, session.playerId);
+      if (session.nickname) this.storage?.setItem(STORAGE_KEYS.nickname, session.nickname);
+      if (session.expiresAt !== null) this.storage?.setItem(STORAGE_KEYS.expiresAt, String(session.expiresAt));
+      else this.storage?.removeItem(STORAGE_KEYS.expiresAt);
+    } catch {
+      /* ignore storage failures */
+    }
+    if (schedule) this.scheduleRefresh(session);
+    this.listeners.forEach((listener) => listener(session));
+    return session;
+  }
+
+  // Обновляем заранее, чтобы переподключение никогда не упиралось в протухший токен
+  private scheduleRefresh(session: StoredSession) {
+    this.dispose();
+    if (session.expiresAt === null) return;
+    const delay = Math.max(SESSION.minRefreshDelayMs, session.expiresAt - Date.now() - SESSION.refreshLeewayMs);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().catch((err) => console.warn('Session refresh failed:', err));
+    }, delay);
+  }
+}
+
+// Одна сессия на транспорт: все потребители видят один и тот же токен
+const sessions = new WeakMap<GameTransport, SessionManager>();
+
+export const getSession = (transport: GameTransport): SessionManager => {
+  const existing = sessions.get(transport);
+  if (existing) return existing;
+  const session = new SessionManager(transport);
+  sessions.set(transport, session);
+  return session;
+};
@@ -0,0 +1,805 @@
+// src/features/game/lib/simulation/GameSimulation.ts
+// Детерминированная симуляция правил: змейки, еда, поверапы, снаряды, опасные блоки и сжатие.
+// Выдаёт те же ServerMessage, что и бэкенд; тот же seed и те же вводы — тот же матч
+
+import { GAME_TIMING, SIMULATION } from '@/features/game/config';
+import { getDirectionFromSnake, isOpposite, type Direction } from '@/features/game/lib/client/direction';
+import { createRng, randomInt, type Rng } from '@/features/game/lib/math';
+import type {
+  BlockCell,
+  ClientMessage,
+  DeathCause,
+  GameModeKey,
+  GameOverInfo,
+  GameState,
+  HotGameState,
+  HotProjectileState,
+  PendingResize,
+  PlayerInfo,
+  PlayerJoinedPayload,
+  PlayerLeftPayload,
+  PlayerListPayload,
+  PowerUp,
+  PowerUpType,
+  ServerMessage,
+  TeamId,
+  TeamState,
+} from '@/features/game/types';
+
+type Cell = { x: number; y: number };
+
+interface SimPlayer {
+  playerId: string;
+  slotId: number;
+  info: PlayerInfo;
+  body: Cell[];
+  direction: Direction;
+  pendingDirection: Direction | null;
+  pendingPowerUpSlot: number | null;
+  respawnAtTick: number | null;
+}
+
+interface Hazard {
+  cells: Cell[];
+  outcome: 'kill' | 'solid';
+  startTick: number;
+}
+
+interface Shrink {
+  resize: PendingResize;
+  startTick: number;
+}
+
+export interface GameSimulationOptions {
+  mode: GameModeKey;
+  seed: number;
+  // Серверное время нулевого тика в epoch мс; от него считаются все таймстемпы
+  epoch: number;
+  gridSize?: number;
+}
+
+const STEP: Record<Direction, Cell> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const POWERUP_TYPES: PowerUpType[] = ['SpeedBoost', 'ScoreBoost', 'Projectile', 'Ghost', 'Reverse', 'Swap'];
+const TEAM_IDS: TeamId[] = ['alpha', 'bravo'];
+const TEAM_NAMES: Record<TeamId, string> = { alpha: 'Alpha', bravo: 'Bravo' };
+
+const key = (cell: Cell) => `${cell.x}:${cell.y}`;
+const msToTicks = (ms: number) => Math.ceil(ms / GAME_TIMING.serverTickRate);
+
+export class GameSimulation {
+  readonly mode: GameModeKey;
+
+  private readonly rng: Rng;
+  private readonly epoch: number;
+  private readonly initialGridSize: number;
+  private gridSize: number;
+  private tick = 0;
+  private roundStartTick = 0;
+  private players = new Map<string, SimPlayer>();
+  private food: Cell[] = [];
+  private powerUps: PowerUp[] = [];
+  private projectiles: HotProjectileState[] = [];
+  private hazards: Hazard[] = [];
+  private shrink: Shrink | null = null;
+  private gameOver: GameOverInfo | null = null;
+  private idCounter = 0;
+  private outbox: ServerMessage[] = [];
+
+  constructor({ mode, seed, epoch, gridSize = SIMULATION.gridSize }: GameSimulationOptions) {
+    this.mode = mode;
+    this.rng = createRng(seed);
+    this.epoch = epoch;
+    this.initialGridSize = gridSize;
+    this.gridSize = gridSize;
+  }
+
+  get playerCount() {
+    return this.players.size;
+  }
+
+  get currentTick() {
+    return this.tick;
+  }
+
+  // Время симуляции на текущем тике (epoch мс)
+  now() {
+    return this.timeAt(this.tick);
+  }
+
+  hasPlayer(playerId: string) {
+    return this.players.has(playerId);
+  }
+
+  addPlayer(playerId: string, nickname: string): PlayerJoinedPayload {
+    const existing = this.players.get(playerId);
+    if (existing) return { playerId, slotId: existing.slotId, player: existing.info };
+
+    const player: SimPlayer = {
+      playerId,
+      slotId: this.nextFreeSlot(),
+      info: {
+        nickname,
+        score: 0,
+        powerUpSlots: Array.from({ length: SIMULATION.powerUpSlots }, () => null),
+        teamId: this.mode === 'team_battle' ? this.smallestTeam() : null,
+        activeEffects: { speedBoostUntil: 0, isGhostUntil: 0 },
+      },
+      body: [],
+      direction: 'right',
+      pendingDirection: null,
+      pendingPowerUpSlot: null,
+      respawnAtTick: null,
+    };
+    this.players.set(playerId, player);
+    this.spawn(player);
+    return { playerId, slotId: player.slotId, player: player.info };
+  }
+
+  removePlayer(playerId: string): PlayerLeftPayload | null {
+    const player = this.players.get(playerId);
+    if (!player) return null;
+    this.players.delete(playerId);
+    this.projectiles = this.projectiles.filter((projectile) => projectile.ownerId !== player.slotId);
+    return { playerId, slotId: player.slotId };
+  }
+
+  // Ставит ввод клиента на следующий тик. Возвращает сообщения только для отправителя;
+  // рассылки, вызванные вводом, выйдут из следующего step
+  handleInput(playerId: string, message: ClientMessage): ServerMessage[] {
+    const player = this.players.get(playerId);
+    if (!player) return [];
+
+    switch (message.action) {
+      case 'turn':
+        player.pendingDirection = message.direction;
+        return [];
+      case 'use_powerup':
+        if (message.slot >= 0 && message.slot < player.info.powerUpSlots.length) {
+          player.pendingPowerUpSlot = message.slot;
+        }
+        return [];
+      case 'switch_team':
+        return this.switchTeam(player, message.teamId);
+      default:
+        return [];
+    }
+  }
+
+  // Один тик; последним всегда идёт новый state, если раунд не окончен
+  step(): ServerMessage[] {
+    const events = this.outbox;
+    this.outbox = [];
+    this.tick += 1;
+
+    // Пауза между раундами: время идёт, но состояние не шлём — иначе баннер победы спрячется
+    if (this.gameOver) {
+      if (this.now() < this.gameOver.resetAt) return events;
+      this.resetRound(events);
+    }
+
+    this.applyPowerUps(events);
+    this.applyTurns();
+
+    const maxSteps = this.speedBoosted() ? 2 : 1;
+    for (let subStep = 0; subStep < maxSteps; subStep++) {
+      const movers = this.alivePlayers().filter((player) => subStep === 0 || this.hasSpeedBoost(player));
+      this.moveSnakes(movers, events);
+    }
+
+    this.moveProjectiles(events);
+    this.updateHazards();
+    this.updateShrink(events);
+    this.killInDeadlyCells(events);
+    this.respawnPlayers();
+    this.spawnPickups();
+
+    if ((this.tick - this.roundStartTick) * GAME_TIMING.serverTickRate >= GAME_TIMING.roundDurationMs) {
+      this.finishRound(events);
+      if (this.gameOver) return events;
+    }
+
+    events.push({ type: 'state', payload: this.snapshot() });
+    return events;
+  }
+
+  snapshot(): HotGameState {
+    const state: HotGameState = {
+      tick: this.tick,
+      gridSize: this.gridSize,
+      mode: this.mode,
+      snakes: this.alivePlayers().map((player) => ({
+        id: player.slotId,
+        body: player.body.map((cell) => ({ ...cell })),
+      })),
+      food: this.food.map((cell) => ({ ...cell })),
+      powerUps: this.powerUps.map((powerUp) => ({ ...powerUp, position: { ...powerUp.position } })),
+      projectiles: this.projectiles.map((projectile) => ({ ...projectile, position: { ...projectile.position } })),
+      blocks: this.blocks(),
+    };
+    if (this.shrink) state.pendingResize = { ...this.shrink.resize };
+    const teams = this.teams();
+    if (teams) state.teams = teams;
+    return state;
+  }
+
+  // То, что клиент собирает из state и player_list; это и читают боты
+  gameState(): GameState {
+    const hot = this.snapshot();
+    const slotToPlayerId = new Map(Array.from(this.players.values(), (player) => [player.slotId, player.playerId]));
+    const resolve = (slotId: number) => slotToPlayerId.get(slotId) ?? String(slotId);
+    return {
+      ...hot,
+      snakes: hot.snakes.map((snake) => ({ ...snake, id: resolve(snake.id) })),
+      projectiles: hot.projectiles.map((projectile) => ({ ...projectile, ownerId: resolve(projectile.ownerId) })),
+      players: this.playerList().players,
+    };
+  }
+
+  playerList(): PlayerListPayload {
+    const players: PlayerListPayload['players'] = {};
+    const slotAssignments: PlayerListPayload['slotAssignments'] = [];
+    for (const player of this.players.values()) {
+      players[player.playerId] = player.info;
+      slotAssignments.push({ slotId: player.slotId, playerId: player.playerId });
+    }
+    return { players, slotAssignments };
+  }
+
+  // ——— время и идентификаторы ———
+
+  private timeAt(tick: number) {
+    return this.epoch + tick * GAME_TIMING.serverTickRate;
+  }
+
+  private nextId(prefix: string) {
+    this.idCounter += 1;
+    return `${prefix}-${this.idCounter}`;
+  }
+
+  private nextFreeSlot() {
+    const used = new Set(Array.from(this.players.values(), (player) => player.slotId));
+    let slot = 0;
+    while (used.has(slot)) slot += 1;
+    return slot;
+  }
+
+  // ——— команды ———
+
+  private smallestTeam(): TeamId {
+    const counts = this.teamCounts();
+    return counts.alpha <= counts.bravo ? 'alpha' : 'bravo';
+  }
+
+  private teamCounts(): Record<TeamId, number> {
+    const counts: Record<TeamId, number> = { alpha: 0, bravo: 0 };
+    for (const player of this.players.values()) {
+      if (player.info.teamId) counts[player.info.teamId] += 1;
+    }
+    return counts;
+  }
+
+  private switchTeam(player: SimPlayer, teamId: TeamId): ServerMessage[] {
+    if (this.mode !== 'team_battle' || player.info.teamId === teamId) {
+      return [{ type: 'team_switch_denied', payload: { reason: 'not_allowed' } }];
+    }
+    const counts = this.teamCounts();
+    const current = player.info.teamId ?? teamId;
+    // Не даём перекосить составы больше чем на одного игрока
+    if (counts[teamId] + 1 - (counts[current] - 1) > 1) {
+      return [{ type: 'team_switch_denied', payload: { reason: 'unbalanced' } }];
+    }
+    player.info = { ...player.info, teamId };
+    this.outbox.push({ type: 'team_switched', payload: { playerId: player.playerId, teamId } });
+    this.outbox.push({ type: 'player_list', payload: this.playerList() });
+    return [];
+  }
+
+  private teams(): TeamState[] | undefined {
+    if (this.mode !== 'team_battle') return undefined;
+    return TEAM_IDS.map((id) => {
+      const members = Array.from(this.players.values()).filter((player) => player.info.teamId === id);
+      return {
+        id,
+        displayName: TEAM_NAMES[id],
+        score: members.reduce((sum, player) => sum + player.info.score, 0),
+        playerIds: members.map((player) => player.playerId),
+      };
+    });
+  }
+
+  // ——— поле ———
+
+  private alivePlayers() {
+    return Array.from(this.players.values()).filter((player) => player.body.length > 0);
+  }
+
+  private inBounds(cell: Cell) {
+    return cell.x >= 0 && cell.y >= 0 && cell.x < this.gridSize && cell.y < this.gridSize;
+  }
+
+  private occupiedCells(): Set<string> {
+    const cells = new Set<string>();
+    for (const player of this.players.values()) {
+      for (const cell of player.body) cells.add(key(cell));
+    }
+    for (const cell of this.food) cells.add(key(cell));
+    for (const powerUp of this.powerUps) cells.add(key(powerUp.position));
+    for (const hazard of this.hazards) {
+      for (const cell of hazard.cells) cells.add(key(cell));
+    }
+    return cells;
+  }
+
+  private randomFreeCell(margin = 0, occupied = this.occupiedCells()): Cell | null {
+    const span = (this.shrink ? this.shrink.resize.to : this.gridSize) - margin * 2;
+    if (span <= 0) return null;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const cell = { x: margin + randomInt(this.rng, span), y: margin + randomInt(this.rng, span) };
+      if (!occupied.has(key(cell))) return cell;
+    }
+    return null;
+  }
+
+  private spawn(player: SimPlayer) {
+    const occupied = this.occupiedCells();
+    const length = SIMULATION.startLength;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const head = this.randomFreeCell(length + 1, occupied);
+      if (!head) break;
+      // Смотрим к центру, чтобы не родиться лицом в стену
+      const direction: Direction = head.x < this.gridSize / 2 ? 'right' : 'left';
+      const back = STEP[direction];
+      const body = Array.from({ length }, (_, index) => ({
+        x: head.x - back.x * index,
+        y: head.y - back.y * index,
+      }));
+      if (body.some((cell) => occupied.has(key(cell)) || this.isDeadly(cell))) continue;
+      player.body = body;
+      player.direction = direction;
+      player.pendingDirection = null;
+      player.respawnAtTick = null;
+      return;
+    }
+    // Места нет — попробуем на следующем тике
+    player.body = [];
+    player.respawnAtTick = this.tick + 1;
+  }
+
+  private respawnPlayers() {
+    for (const player of this.players.values()) {
+      if (player.respawnAtTick !== null && this.tick >= player.respawnAtTick) this.spawn(player);
+    }
+  }
+
+  private spawnPickups() {
+    const targetFood = SIMULATION.baseFood + this.players.size;
+    while (this.food.length < targetFood) {
+      const cell = this.randomFreeCell();
+      if (!cell) break;
+      this.food.push(cell);
+    }
+
+    const sinceStart = this.tick - this.roundStartTick;
+    if (sinceStart <= 0) return;
+    if (sinceStart % SIMULATION.powerUpSpawnTicks === 0 && this.powerUps.length < SIMULATION.maxPowerUps) {
+      const cell = this.randomFreeCell(1);
+      if (cell) {
+        this.powerUps.push({
+          id: this.nextId('pu'),
+          type: POWERUP_TYPES[randomInt(this.rng, POWERUP_TYPES.length)],
+          position: cell,
+        });
+      }
+    }
+
+    if (sinceStart % SIMULATION.hazardSpawnTicks === 0) this.spawnHazard();
+  }
+
+  // ——— движение ———
+
+  private applyTurns() {
+    for (const player of this.players.values()) {
+      const next = player.pendingDirection;
+      player.pendingDirection = null;
+      if (!next || !player.body.length) continue;
+      if (player.body.length > 1 && isOpposite(player.direction, next)) continue;
+      player.direction = next;
+    }
+  }
+
+  private hasSpeedBoost(player: SimPlayer) {
+    return player.info.activeEffects.speedBoostUntil > this.now();
+  }
+
+  private isGhost(player: SimPlayer) {
+    return player.info.activeEffects.isGhostUntil > this.now();
+  }
+
+  private speedBoosted() {
+    return this.alivePlayers().some((player) => this.hasSpeedBoost(player));
+  }
+
+  private moveSnakes(movers: SimPlayer[], events: ServerMessage[]) {
+    for (const player of movers) {
+      const head = player.body[0];
+      const next = { x: head.x + STEP[player.direction].x, y: head.y + STEP[player.direction].y };
+      player.body.unshift(next);
+
+      const foodIndex = this.food.findIndex((cell) => cell.x === next.x && cell.y === next.y);
+      if (foodIndex >= 0) {
+        this.food.splice(foodIndex, 1);
+        this.addScore(player, 1, events);
+      } else {
+        player.body.pop();
+      }
+
+      const powerUpIndex = this.powerUps.findIndex(
+        (powerUp) => powerUp.position.x === next.x && powerUp.position.y === next.y,
+      );
+      const freeSlot = player.info.powerUpSlots.indexOf(null);
+      // С полными слотами бонус остаётся лежать
+      if (powerUpIndex >= 0 && freeSlot >= 0) {
+        const [powerUp] = this.powerUps.splice(powerUpIndex, 1);
+        const powerUpSlots = [...player.info.powerUpSlots];
+        powerUpSlots[freeSlot] = powerUp.type;
+        player.info = { ...player.info, powerUpSlots };
+        this.pushPowerUpUpdate(player, events);
+      }
+    }
+
+    // Столкновения считаем после всех ходов, чтобы порядок обхода не влиял на исход
+    const dead = movers.flatMap((player) => {
+      const cause = this.collision(player);
+      return cause ? [{ player, cause }] : [];
+    });
+    for (const { player, cause } of dead) this.killPlayer(player, events, cause);
+  }
+
+  // Во что врезалась голова; null, если ход безопасен
+  private collision(player: SimPlayer): DeathCause | null {
+    const head = player.body[0];
+    if (!this.inBounds(head)) return { kind: 'wall' };
+    if (this.isGhost(player)) return null;
+
+    for (const other of this.alivePlayers()) {
+      const cells = other === player ? other.body.slice(1) : other.body;
+      if (!cells.some((cell) => cell.x === head.x && cell.y === head.y)) continue;
+      return other === player ? { kind: 'self' } : { kind: 'snake', killerId: other.playerId };
+    }
+    return null;
+  }
+
+  private killPlayer(player: SimPlayer, events: ServerMessage[], cause: DeathCause) {
+    if (!player.body.length) return;
+    // Каждая вторая клетка тела превращается в еду
+    for (let index = 1; index < player.body.length; index += 2) {
+      const cell = player.body[index];
+      if (this.inBounds(cell) && !this.isDeadly(cell)) this.food.push({ ...cell });
+    }
+    player.body = [];
+    player.pendingDirection = null;
+    player.pendingPowerUpSlot = null;
+    player.respawnAtTick = this.tick + SIMULATION.respawnTicks;
+    events.push({ type: 'player_died', payload: { playerId: player.playerId, cause } });
+  }
+
+  private addScore(player: SimPlayer, points: number, events: ServerMessage[]) {
+    player.info = { ...player.info, score: player.info.score + points };
+    events.push({ type: 'score_update', payload: { playerId: player.playerId, score: player.info.score } });
+  }
+
+  private pushPowerUpUpdate(player: SimPlayer, events: ServerMessage[]) {
+    events.push({
+      type: 'powerup_update',
+      payload: {
+        playerId: player.playerId,
+        powerUpSlots: [...player.info.powerUpSlots],
+        activeEffects: { ...player.info.activeEffects },
+      },
+    });
+  }
+
+  // ——— бонусы ———
+
+  private applyPowerUps(events: ServerMessage[]) {
+    for (const player of this.players.values()) {
+      const slot = player.pendingPowerUpSlot;
+      player.pendingPowerUpSlot = null;
+      if (slot === null || !player.body.length) continue;
+      const type = player.info.powerUpSlots[slot];
+      if (!type || !this.usePowerUp(player, type, events)) continue;
+
+      const powerUpSlots = [...player.info.powerUpSlots];
+      powerUpSlots[slot] = null;
+      player.info = { ...player.info, powerUpSlots };
+      this.pushPowerUpUpdate(player, events);
+    }
+  }
+
+  // false, если поверап сейчас бесполезен и остаётся в слоте
+  private usePowerUp(player: SimPlayer, type: PowerUpType, events: ServerMessage[]) {
+    const until = this.now() + SIMULATION.effectDurationMs;
+    switch (type) {
+      case 'SpeedBoost':
+        player.info = { ...player.info, activeEffects: { ...player.info.activeEffects, speedBoostUntil: until } };
+        return true;
+      case 'Ghost':
+        player.info = { ...player.info, activeEffects: { ...player.info.activeEffects, isGhostUntil: until } };
+        return true;
+      case 'ScoreBoost':
+        this.addScore(player, SIMULATION.scoreBoostPoints, events);
+        return true;
+      case 'Projectile':
+        this.projectiles.push({
+          id: this.nextId('pj'),
+          ownerId: player.slotId,
+          position: { ...player.body[0] },
+          direction: player.direction,
+        });
+        return true;
+      case 'Reverse': {
+        if (player.body.length < 2) return false;
+        player.body.reverse();
+        player.direction = getDirectionFromSnake(player) ?? player.direction;
+        return true;
+      }
+      case 'Swap': {
+        const target = this.nearestOpponent(player);
+        if (!target) return false;
+        [player.body, target.body] = [target.body, player.body];
+        [player.direction, target.direction] = [target.direction, player.direction];
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private nearestOpponent(player: SimPlayer) {
+    const head = player.body[0];
+    let best: SimPlayer | null = null;
+    let bestDistance = Infinity;
+    for (const other of this.alivePlayers()) {
+      if (other === player) continue;
+      if (player.info.teamId && other.info.teamId === player.info.teamId) continue;
+      const otherHead = other.body[0];
+      const distance = Math.abs(otherHead.x - head.x) + Math.abs(otherHead.y - head.y);
+      if (distance < bestDistance) {
+        best = other;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  private moveProjectiles(events: ServerMessage[]) {
+    const remaining: HotProjectileState[] = [];
+    for (const projectile of this.projectiles) {
+      let alive = true;
+      for (let step = 0; step < SIMULATION.projectileSpeed && alive; step++) {
+        const delta = STEP[projectile.direction];
+        projectile.position = { x: projectile.position.x + delta.x, y: projectile.position.y + delta.y };
+        alive = this.resolveProjectileHit(projectile, events);
+      }
+      if (alive) remaining.push(projectile);
+    }
+    this.projectiles = remaining;
+  }
+
+  // false, если снаряд израсходован
+  private resolveProjectileHit(projectile: HotProjectileState, events: ServerMessage[]) {
+    const position = projectile.position;
+    if (!this.inBounds(position)) return false;
+
+    const hitHazard = this.hazards.find(
+      (hazard) =>
+        this.hazardPhase(hazard) === 'solid' &&
+        hazard.cells.some((cell) => cell.x === position.x && cell.y === position.y),
+    );
+    if (hitHazard) {
+      // Снаряд выбивает клетку стены
+      hitHazard.cells = hitHazard.cells.filter((cell) => cell.x !== position.x || cell.y !== position.y);
+      return false;
+    }
+
+    for (const target of this.alivePlayers()) {
+      if (target.slotId === projectile.ownerId || this.isGhost(target)) continue;
+      const index = target.body.findIndex((cell) => cell.x === position.x && cell.y === position.y);
+      if (index < 0) continue;
+      if (index === 0) {
+        const owner = Array.from(this.players.values()).find((player) => player.slotId === projectile.ownerId);
+        // Снаряды ушедших игроков убираются, так что автор почти всегда найдётся
+        this.killPlayer(target, events, owner ? { kind: 'projectile', killerId: owner.playerId } : { kind: 'projectile' });
+      } else {
+        target.body = target.body.slice(0, index);
+      }
+      return false;
+    }
+    return true;
+  }
+
+  // ——— блоки и сжатие ———
+
+  private hazardPhase(hazard: Hazard): BlockCell['state'] | null {
+    const age = this.tick - hazard.startTick;
+    if (age < SIMULATION.hazardWarnTicks) return 'warning';
+    if (hazard.outcome === 'solid') return 'solid';
+    return age < SIMULATION.hazardWarnTicks + SIMULATION.hazardKillTicks ? 'kill' : null;
+  }
+
+  private spawnHazard() {
+    const occupied = this.occupiedCells();
+    const origin = this.randomFreeCell(2, occupied);
+    if (!origin) return;
+    const horizontal = this.rng() < 0.5;
+    const cells: Cell[] = [];
+    for (let index = 0; index < SIMULATION.hazardSize; index++) {
+      const cell = horizontal ? { x: origin.x + index, y: origin.y } : { x: origin.x, y: origin.y + index };
+      if (this.inBounds(cell) && !occupied.has(key(cell))) cells.push(cell);
+    }
+    if (!cells.length) return;
+    this.hazards.push({
+      cells,
+      outcome: this.rng() < SIMULATION.hazardSolidChance ? 'solid' : 'kill',
+      startTick: this.tick,
+    });
+  }
+
+  private updateHazards() {
+    this.hazards = this.hazards.filter((hazard) => hazard.cells.length && this.hazardPhase(hazard) !== null);
+  }
+
+  private shrinkPhase(): 'warning' | 'kill' | null {
+    if (!this.shrink) return null;
+    const age = this.tick - this.shrink.startTick;
+    return age < msToTicks(this.shrink.resize.warnMs) ? 'warning' : 'kill';
+  }
+
+  private updateShrink(events: ServerMessage[]) {
+    const sinceStart = this.tick - this.roundStartTick;
+    if (!this.shrink) {
+      const to = this.gridSize - SIMULATION.resizeStep;
+      if (sinceStart > 0 && sinceStart % SIMULATION.resizeEveryTicks === 0 && to >= SIMULATION.minGridSize) {
+        this.shrink = {
+          startTick: this.tick,
+          resize: {
+            from: this.gridSize,
+            to,
+            announcedAt: this.now(),
+            warnMs: SIMULATION.resizeWarnMs,
+            killMs: SIMULATION.resizeKillMs,
+          },
+        };
+      }
+      return;
+    }
+
+    const { resize, startTick } = this.shrink;
+    if (this.tick - startTick < msToTicks(resize.warnMs + resize.killMs)) return;
+
+    // Зона схлопнулась: всё, что осталось снаружи, исчезает
+    this.gridSize = resize.to;
+    this.shrink = null;
+    this.food = this.food.filter((cell) => this.inBounds(cell));
+    this.powerUps = this.powerUps.filter((powerUp) => this.inBounds(powerUp.position));
+    this.projectiles = this.projectiles.filter((projectile) => this.inBounds(projectile.position));
+    for (const hazard of this.hazards) hazard.cells = hazard.cells.filter((cell) => this.inBounds(cell));
+    for (const player of this.alivePlayers()) {
+      if (player.body.some((cell) => !this.inBounds(cell))) this.killPlayer(player, events, { kind: 'arena_shrink' });
+    }
+  }
+
+  private inShrinkZone(cell: Cell) {
+    if (!this.shrink) return false;
+    const to = this.shrink.resize.to;
+    return cell.x >= to || cell.y >= to;
+  }
+
+  private isDeadly(cell: Cell) {
+    if (this.inShrinkZone(cell) && this.shrinkPhase() === 'kill') return true;
+    return this.hazards.some((hazard) => {
+      const phase = this.hazardPhase(hazard);
+      return (
+        (phase === 'kill' || phase === 'solid') &&
+        hazard.cells.some((entry) => entry.x === cell.x && entry.y === cell.y)
+      );
+    });
+  }
+
+  private killInDeadlyCells(events: ServerMessage[]) {
+    const shrinking = this.shrinkPhase() === 'kill';
+    for (const player of this.alivePlayers()) {
+      const deadly = player.body.filter((cell) => this.isDeadly(cell));
+      if (!deadly.length) continue;
+      const cause: DeathCause = shrinking && deadly.some((cell) => this.inShrinkZone(cell))
+        ? { kind: 'arena_shrink' }
+        : { kind: 'block' };
+      this.killPlayer(player, events, cause);
+    }
+  }
+
+  private blocks(): BlockCell[] {
+    const blocks: BlockCell[] = [];
+    for (const hazard of this.hazards) {
+      const phase = this.hazardPhase(hazard);
+      if (!phase) continue;
+      const warnUntil = this.timeAt(hazard.startTick + SIMULATION.hazardWarnTicks);
+      const killUntil = this.timeAt(hazard.startTick + SIMULATION.hazardWarnTicks + SIMULATION.hazardKillTicks);
+      for (const cell of hazard.cells) {
+        const block: BlockCell = { x: cell.x, y: cell.y, state: phase, activateAt: this.timeAt(hazard.startTick) };
+        // Стены постоянные, у остальных блоков есть срок для плавного исчезновения
+        if (phase !== 'solid') block.expireAt = phase === 'warning' ? warnUntil : killUntil;
+        blocks.push(block);
+      }
+    }
+
+    const phase = this.shrinkPhase();
+    if (this.shrink && phase) {
+      const { resize } = this.shrink;
+      const fillAt = resize.announcedAt + resize.warnMs;
+      for (let y = 0; y < this.gridSize; y++) {
+        for (let x = 0; x < this.gridSize; x++) {
+          if (x < resize.to && y < resize.to) continue;
+          blocks.push({
+            x,
+            y,
+            state: phase,
+            activateAt: phase === 'warning' ? resize.announcedAt : fillAt,
+            expireAt: phase === 'warning' ? fillAt : fillAt + resize.killMs,
+          });
+        }
+      }
+    }
+    return blocks;
+  }
+
+  // ——— раунд ———
+
+  private finishRound(events: ServerMessage[]) {
+    const ranked = Array.from(this.players.values()).sort((a, b) => b.info.score - a.info.score);
+    let winner = ranked[0];
+    if (!winner) return;
+
+    const teams = this.teams();
+    if (teams) {
+      const [best] = [...teams].sort((a, b) => b.score - a.score);
+      winner = ranked.find((player) => player.info.teamId === best.id) ?? winner;
+    }
+
+    this.gameOver = {
+      winnerId: winner.playerId,
+      winnerNickname: winner.info.nickname,
+      winnerScore: winner.info.score,
+      resetAt: this.now() + SIMULATION.roundResetDelayMs,
+    };
+    events.push({ type: 'game_over', payload: this.gameOver });
+  }
+
+  private resetRound(events: ServerMessage[]) {
+    this.gameOver = null;
+    this.roundStartTick = this.tick;
+    this.gridSize = this.initialGridSize;
+    this.food = [];
+    this.powerUps = [];
+    this.projectiles = [];
+    this.hazards = [];
+    this.shrink = null;
+    for (const player of this.players.values()) {
+      player.body = [];
+      player.info = {
+        ...player.info,
+        score: 0,
+        powerUpSlots: player.info.powerUpSlots.map(() => null),
+        activeEffects: { speedBoostUntil: 0, isGhostUntil: 0 },
+      };
+    }
+    for (const player of this.players.values()) this.spawn(player);
+    events.push({ type: 'player_list', payload: this.playerList() });
+  }
+}
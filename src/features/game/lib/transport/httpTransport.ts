@@ -0,0 +1,177 @@
+// src/features/game/lib/transport/httpTransport.ts
+// Настоящий бэкенд: REST на NEXT_PUBLIC_API_URL, сокет лобби на NEXT_PUBLIC_WS_URL
+
+import type { GameModeKey, LobbySummary } from '@/features/game/types';
+import {
+  authFrame,
+  authProtocol,
+  isSocketAuthMethod,
+  SocketAuthNegotiator,
+  type SocketAuthMethod,
+} from '@/features/game/lib/transport/socketAuth';
+import {
+  TransportError,
+  type AuthRequest,
+  type AuthResult,
+  type GameSocket,
+  type GameTransport,
+  type JoinedLobby,
+  type LobbySocketParams,
+} from '@/features/game/lib/transport/types';
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const data = await response.json();
+    if (typeof data?.error === 'string') return data.error as string;
+  } catch {
+    /* ignore body parse */
+  }
+  return fallback;
+};
+
+type AuthResponse = Omit<AuthResult, 'socketAuth'> & { expiresIn?: number; wsAuth?: unknown };
+
+// Сервер может отдать срок как `expiresAt` (мс) или `expiresIn` (секунды)
+const toAuthResult = (data: AuthResponse): AuthResult => {
+  const { expiresIn, wsAuth, ...result } = data;
+  const socketAuth = Array.isArray(wsAuth) ? wsAuth.filter(isSocketAuthMethod) : undefined;
+  let expiresAt = typeof result.expiresAt === 'number' ? result.expiresAt : null;
+  if (expiresAt === null && typeof expiresIn === 'number') expiresAt = Date.now() + expiresIn * 1000;
+  return { ...result, expiresAt, socketAuth };
+};
+
+export const createHttpTransport = (
+  apiUrl: string | undefined = process.env.NEXT_PUBLIC_API_URL,
+  wsUrl: string | undefined = process.env.NEXT_PUBLIC_WS_URL,
+  // Разрешает фолбэк на ?token= для серверов, которые иначе не умеют
+  legacyQueryToken: boolean = process.env.NEXT_PUBLIC_WS_QUERY_TOKEN === 'true',
+): GameTransport => {
+  const socketAuth = new SocketAuthNegotiator({ allowQuery: legacyQueryToken });
+
+  // Слушатели вешаем раньше контроллера: кадр auth уходит до любых его сообщений
+  const watchAuthHandshake = (socket: WebSocket, method: SocketAuthMethod, token: string) => {
+    if (method === 'message') {
+      socket.addEventListener('open', () => socket.send(authFrame(token)), { once: true });
+    }
+    // Сервер, не понявший способ, рвёт рукопожатие (браузер отдаёт 1006) или закрывает сокет
+    // до первого сообщения — с любым кодом. Свои закрытия отказом не считаем
+    let answered = false;
+    let closedByClient = false;
+    const close = socket.close.bind(socket);
+    socket.close = (code?: number, reason?: string) => {
+      closedByClient = true;
+      close(code, reason);
+    };
+    socket.addEventListener('message', () => {
+      answered = true;
+      socketAuth.confirm(method);
+    }, { once: true });
+    socket.addEventListener('close', () => {
+      if (!answered && !closedByClient) socketAuth.reject(method);
+    }, { once: true });
+  };
+
+  const requireApiUrl = () => {
+    if (!apiUrl) throw new TransportError('API url is not configured.');
+    return apiUrl;
+  };
+
+  return {
+    kind: 'http',
+
+    async authenticate({ nickname, playerId, token }: AuthRequest): Promise<AuthResult> {
+      const headers: HeadersInit = { 'Content-Type': 'application/json' };
+      if (token) headers.Authorization = `Bearer ${token}`;
+      const payload: Record<string, unknown> = { nickname };
+      if (playerId) payload.playerId = playerId;
+
+      const response = await fetch(`${requireApiUrl()}/auth`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+      });
+
+      if (response.status === 409) {
+        throw new TransportError(await readErrorMessage(response, 'Nickname already in use.'), 409);
+      }
+      if (!response.ok) {
+        throw new TransportError('Authentication failed. Check client secret.', response.status);
+      }
+      const result = toAuthResult(await response.json());
+      socketAuth.advertise(result.socketAuth);
+      return result;
+    },
+
+    async findBestLobby(mode: GameModeKey, token: string) {
+      const response = await fetch(`${requireApiUrl()}/lobbies/find-best?mode=${mode}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new TransportError(await readErrorMessage(response, 'Could not find a lobby.'), response.status);
+      }
+      const data = (await response.json()) as { lobbyId: string };
+      return { lobbyId: data.lobbyId };
+    },
+
+    async joinLobby(lobbyId: string, token: string): Promise<JoinedLobby> {
+      const response = await fetch(`${requireApiUrl()}/lobbies/join`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lobbyId }),
+      });
+      if (!response.ok) {
+        throw new TransportError(await readErrorMessage(response, 'Failed to join lobby.'), response.status);
+      }
+      const payload = (await response.json()) as {
+        lobbyId: string;
+        mode: GameModeKey;
+        name?: string | null;
+      };
+      return {
+        lobbyId: payload.lobbyId,
+        mode: payload.mode,
+        name: payload.name ?? null,
+      };
+    },
+
+    async leaveLobby(lobbyId: string, token: string) {
+      if (!apiUrl) return;
+      // keepalive — чтобы запрос доехал даже при навигации
+      await fetch(`${apiUrl}/lobbies/${lobbyId}/leave`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        keepalive: true,
+      }).catch(() => { });
+    },
+
+    async listLobbies(mode: GameModeKey, token: string): Promise<LobbySummary[]> {
+      const response = await fetch(`${requireApiUrl()}/lobbies?mode=${mode}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new TransportError(await readErrorMessage(response, 'Failed to load lobbies.'), response.status);
+      }
+      const data = (await response.json()) as { lobbies?: LobbySummary[] };
+      return data.lobbies ?? [];
+    },
+
+    openLobbySocket({ lobbyId, token, nickname, mode, protocols, role }: LobbySocketParams): GameSocket {
+      const method = socketAuth.pick();
+      if (!method) throw new TransportError('The server only accepts tokens in the socket URL.');
+
+      const query = new URLSearchParams({ nickname, mode, caps: 'delta' });
+      if (role === 'spectator') query.set('spectate', '1');
+      if (method === 'query') query.set('token', token);
+      const socket = new WebSocket(
+        `${wsUrl}/lobbies/${lobbyId}/ws?${query}`,
+        method === 'protocol' ? [...protocols, authProtocol(token)] : protocols,
+      );
+      socket.binaryType = 'arraybuffer';
+      watchAuthHandshake(socket, method, token);
+      return socket;
+    },
+  };
+};
@@ -0,0 +1,34 @@
+// src/features/game/lib/transport/index.ts
+
+import { createHttpTransport } from '@/features/game/lib/transport/httpTransport';
+import { createLoopbackTransport } from '@/features/game/lib/transport/loopback/LoopbackServer';
+import type { GameTransport } from '@/features/game/lib/transport/types';
+
+export type TransportKind = GameTransport['kind'];
+
+export const resolveTransportKind = (value: string | null | undefined): TransportKind =>
+  value === 'loopback' || value === 'offline' ? value : 'http';
+
+const createTransport = (kind: TransportKind): GameTransport => {
+  switch (kind) {
+    case 'loopback':
+      return createLoopbackTransport();
+    case 'offline':
+      return createLoopbackTransport({ latencyMs: 0, offline: true });
+    default:
+      return createHttpTransport();
+  }
+};
+
+// Один экземпляр на вкладку: loopback хранит лобби в памяти, их нельзя пересоздавать
+const transports: Partial<Record<TransportKind, GameTransport>> = {};
+
+export const getGameTransport = (
+  kind: TransportKind = resolveTransportKind(process.env.NEXT_PUBLIC_TRANSPORT),
+): GameTransport => {
+  const existing = transports[kind];
+  if (existing) return existing;
+  const transport = createTransport(kind);
+  transports[kind] = transport;
+  return transport;
+};
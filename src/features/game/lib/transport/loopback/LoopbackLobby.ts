@@ -0,0 +1,262 @@
+// src/features/game/lib/transport/loopback/LoopbackLobby.ts
+// Лобби loopback-сервера: раздаёт GameSimulation подключённым сокетам и кормит её их вводами
+// (и вводами ботов). Наблюдатели получают ту же рассылку, но в симуляцию не входят
+
+import { GAME_TIMING, INPUTS, LOOPBACK, WIRE_PROTOCOLS } from '@/features/game/config';
+import { BOT_DIFFICULTIES, createBot, type Bot, type BotDifficulty } from '@/features/game/lib/bots';
+import { encodeStateFrame } from '@/features/game/lib/client/binaryProtocol';
+import { createRng, type Rng } from '@/features/game/lib/math';
+import { GameSimulation } from '@/features/game/lib/simulation/GameSimulation';
+import type { LoopbackSocket } from '@/features/game/lib/transport/loopback/LoopbackSocket';
+import { encodeWireMessage } from '@/features/game/lib/transport/loopback/wire';
+import type { ClientMessage, GameModeKey, InputEnvelope, LobbySummary, ServerMessage } from '@/features/game/types';
+
+interface LobbyMember {
+  playerId: string;
+  socket: LoopbackSocket;
+  binary: boolean;
+  spectator: boolean;
+}
+
+export class LoopbackLobby {
+  readonly id: string;
+  readonly name: string;
+  readonly mode: GameModeKey;
+  readonly maxPlayers: number;
+  readonly createdAt = Date.now();
+  readonly simulation: GameSimulation;
+
+  private members = new Map<string, LobbyMember>();
+  private spectators = new Map<string, LobbyMember>();
+  private bots = new Map<string, Bot>();
+  // seq → тик, на который лёг ввод; переживает переподключение игрока
+  private appliedInputs = new Map<string, Map<number, number | null>>();
+  private readonly botRng: Rng;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(id: string, name: string, mode: GameModeKey, seed: number) {
+    this.id = id;
+    this.name = name;
+    this.mode = mode;
+    this.maxPlayers = LOOPBACK.maxPlayers;
+    this.simulation = new GameSimulation({ mode, seed, epoch: this.createdAt });
+    this.botRng = createRng(seed ^ 0x9e3779b9);
+  }
+
+  get playerCount() {
+    return this.simulation.playerCount;
+  }
+
+  get connectedCount() {
+    return this.members.size;
+  }
+
+  hasPlayer(playerId: string) {
+    return this.simulation.hasPlayer(playerId);
+  }
+
+  summary(): LobbySummary {
+    return {
+      id: this.id,
+      name: this.name,
+      mode: this.mode,
+      playerCount: this.playerCount,
+      maxPlayers: this.maxPlayers,
+      createdAt: this.createdAt,
+    };
+  }
+
+  connect(socket: LoopbackSocket, playerId: string, nickname: string) {
+    // Повторное подключение того же игрока вытесняет старый сокет (как код 4000 на сервере)
+    const existing = this.members.get(playerId);
+    const isNewPlayer = !this.hasPlayer(playerId);
+    if (existing) {
+      existing.socket.terminate(4000, 'Replaced by new connection');
+    } else if (isNewPlayer && this.playerCount >= this.maxPlayers) {
+      socket.reject(1008, 'Lobby is full');
+      return;
+    }
+
+    const member = this.acceptMember(socket, playerId, false);
+    this.members.set(playerId, member);
+
+    const joined = this.simulation.addPlayer(playerId, nickname);
+    this.send(member, { type: 'player_list', payload: this.simulation.playerList() });
+    this.send(member, { type: 'state', payload: this.simulation.snapshot() });
+    if (isNewPlayer) this.broadcast({ type: 'player_joined', payload: joined }, playerId);
+    this.ensureRunning();
+  }
+
+  // Наблюдатель: получает все рассылки, слот не занимает, вводы кроме ping игнорируются
+  watch(socket: LoopbackSocket, viewerId: string) {
+    this.spectators.get(viewerId)?.socket.terminate(4000, 'Replaced by new connection');
+    const member = this.acceptMember(socket, viewerId, true);
+    this.spectators.set(viewerId, member);
+    this.send(member, { type: 'player_list', payload: this.simulation.playerList() });
+    this.send(member, { type: 'state', payload: this.simulation.snapshot() });
+    this.ensureRunning();
+  }
+
+  addBot(difficulty: BotDifficulty) {
+    if (this.playerCount >= this.maxPlayers) return;
+    const index = this.bots.size + 1;
+    const botId = `bot-${this.id}-${index}`;
+    const label = BOT_DIFFICULTIES.find((entry) => entry.key === difficulty)?.label ?? 'Bot';
+    this.bots.set(botId, createBot(difficulty, this.botRng));
+    const joined = this.simulation.addPlayer(botId, `${label} ${index}`);
+    this.broadcast({ type: 'player_joined', payload: joined });
+  }
+
+  leave(playerId: string) {
+    const member = this.members.get(playerId);
+    this.members.delete(playerId);
+    this.appliedInputs.delete(playerId);
+    member?.socket.terminate(1000, 'Left lobby');
+    const left = this.simulation.removePlayer(playerId);
+    if (left) this.broadcast({ type: 'player_left', payload: left });
+    this.stopIfEmpty();
+  }
+
+  dispose() {
+    for (const member of [...this.members.values(), ...this.spectators.values()]) {
+      member.socket.terminate(1001, 'Server shutting down');
+    }
+    this.members.clear();
+    this.spectators.clear();
+    this.stop();
+  }
+
+  private acceptMember(socket: LoopbackSocket, playerId: string, spectator: boolean): LobbyMember {
+    const binary = socket.offeredProtocols.includes(WIRE_PROTOCOLS.binary);
+    const member: LobbyMember = { playerId, socket, binary, spectator };
+    socket.accept(
+      {
+        onClientMessage: (data) => this.handleClientMessage(member, data),
+        onClientClose: () => this.handleClientClose(member),
+      },
+      binary ? WIRE_PROTOCOLS.binary : WIRE_PROTOCOLS.json,
+    );
+    return member;
+  }
+
+  private isCurrent(member: LobbyMember) {
+    return (member.spectator ? this.spectators : this.members).get(member.playerId) === member;
+  }
+
+  private unwatch(member: LobbyMember, code: number, reason: string) {
+    this.spectators.delete(member.playerId);
+    member.socket.terminate(code, reason);
+    this.stopIfEmpty();
+  }
+
+  private handleClientClose(member: LobbyMember) {
+    // Закрылся уже вытесненный сокет — игрока не трогаем
+    if (!this.isCurrent(member)) return;
+    if (member.spectator) this.unwatch(member, 1000, 'Closed');
+    else this.leave(member.playerId);
+  }
+
+  private handleClientMessage(member: LobbyMember, data: string | ArrayBuffer) {
+    if (!this.isCurrent(member) || typeof data !== 'string') return;
+    if (data === 'H') return;
+
+    let message: ClientMessage & Partial<InputEnvelope>;
+    try {
+      message = JSON.parse(data) as ClientMessage & Partial<InputEnvelope>;
+    } catch {
+      return;
+    }
+
+    switch (message.action) {
+      case 'ping':
+        this.send(member, { type: 'pong', payload: { id: message.id, serverTime: this.simulation.now() } });
+        break;
+      case 'request_keyframe':
+        this.send(member, { type: 'state', payload: this.simulation.snapshot() });
+        break;
+      case 'request_sync':
+        this.send(member, { type: 'sync', payload: { ...this.simulation.playerList(), state: this.simulation.snapshot() } });
+        break;
+      case 'leave':
+        if (member.spectator) this.unwatch(member, 1000, 'Left lobby');
+        else this.leave(member.playerId);
+        break;
+      default:
+        if (member.spectator) break;
+        this.applyInput(member, message);
+        break;
+    }
+  }
+
+  private applyInput(member: LobbyMember, message: ClientMessage & Partial<InputEnvelope>) {
+    const { seq } = message;
+    if (typeof seq !== 'number') {
+      for (const reply of this.simulation.handleInput(member.playerId, message)) this.send(member, reply);
+      return;
+    }
+
+    let applied = this.appliedInputs.get(member.playerId);
+    if (!applied) {
+      applied = new Map();
+      this.appliedInputs.set(member.playerId, applied);
+    }
+    // Переотправка после реконнекта: второй раз не применяем, только подтверждаем
+    if (applied.has(seq)) {
+      this.send(member, { type: 'input_ack', payload: { seq, tick: applied.get(seq) ?? null } });
+      return;
+    }
+
+    const replies = this.simulation.handleInput(member.playerId, message);
+    // Ввод ляжет на следующий шаг симуляции; без змейки он отброшен
+    const tick = this.simulation.hasPlayer(member.playerId) ? this.simulation.currentTick + 1 : null;
+    applied.set(seq, tick);
+    if (applied.size > INPUTS.serverAckMemory) applied.delete(applied.keys().next().value as number);
+
+    this.send(member, { type: 'input_ack', payload: { seq, tick } });
+    for (const reply of replies) this.send(member, reply);
+  }
+
+  private ensureRunning() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.driveBots();
+      for (const message of this.simulation.step()) this.broadcast(message);
+    }, GAME_TIMING.serverTickRate);
+  }
+
+  private driveBots() {
+    if (!this.bots.size) return;
+    const state = this.simulation.gameState();
+    const now = this.simulation.now();
+    for (const [botId, bot] of this.bots) {
+      for (const message of bot.decide({ state, playerId: botId, now })) {
+        this.simulation.handleInput(botId, message);
+      }
+    }
+  }
+
+  private stopIfEmpty() {
+    if (!this.members.size && !this.spectators.size) this.stop();
+  }
+
+  private stop() {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private send(member: LobbyMember, message: ServerMessage) {
+    if (message.type === 'state' && member.binary) {
+      member.socket.deliver(encodeStateFrame(message.payload));
+      return;
+    }
+    member.socket.deliver(encodeWireMessage(message));
+  }
+
+  private broadcast(message: ServerMessage, exceptPlayerId?: string) {
+    for (const member of this.members.values()) {
+      if (member.playerId !== exceptPlayerId) this.send(member, message);
+    }
+    for (const spectator of this.spectators.values()) this.send(spectator, message);
+  }
+}
@@ -0,0 +1,198 @@
+// src/features/game/lib/transport/loopback/LoopbackServer.ts
+// Замена бэкенда внутри процесса: авторизация, реестр лобби и сокеты.
+// Страница игры с ?transport=loopback работает вообще без сети
+
+import { LOOPBACK } from '@/features/game/config';
+import type { BotDifficulty } from '@/features/game/lib/bots';
+import { createRng } from '@/features/game/lib/math';
+import { LoopbackLobby } from '@/features/game/lib/transport/loopback/LoopbackLobby';
+import { LoopbackSocket } from '@/features/game/lib/transport/loopback/LoopbackSocket';
+import {
+  TransportError,
+  type AuthRequest,
+  type AuthResult,
+  type GameTransport,
+  type JoinedLobby,
+  type LobbySocketParams,
+} from '@/features/game/lib/transport/types';
+import type { GameModeKey } from '@/features/game/types';
+
+interface LoopbackAccount {
+  playerId: string;
+  nickname: string;
+  expiresAt: number;
+}
+
+export interface LoopbackTransportOptions {
+  latencyMs?: number;
+  seed?: number;
+  // Сколько принимается выданный токен
+  tokenTtlMs?: number;
+  // Одиночная тренировка: каждый матч в своём закрытом лобби, в списке ничего нет
+  offline?: boolean;
+}
+
+export interface LoopbackTransport extends GameTransport {
+  readonly kind: 'loopback' | 'offline';
+  // Боты для каждого лобби, созданного с этого момента
+  setBotLineup(lineup: BotDifficulty[]): void;
+  // Закрывает все сокеты и останавливает циклы лобби
+  dispose(): void;
+}
+
+export const isLoopbackTransport = (transport: GameTransport): transport is LoopbackTransport =>
+  transport.kind === 'loopback' || transport.kind === 'offline';
+
+export const createLoopbackTransport = ({
+  latencyMs = LOOPBACK.latencyMs,
+  seed = LOOPBACK.seed,
+  tokenTtlMs = LOOPBACK.tokenTtlMs,
+  offline = false,
+}: LoopbackTransportOptions = {}): LoopbackTransport => {
+  const rng = createRng(seed);
+  const accounts = new Map<string, LoopbackAccount>();
+  const lobbies = new Map<string, LoopbackLobby>();
+  let idCounter = 0;
+  let botLineup: BotDifficulty[] = [];
+
+  const nextId = (prefix: string) => {
+    idCounter += 1;
+    return `${prefix}-${idCounter.toString(36)}-${Math.floor(rng() * 0xffffff).toString(36)}`;
+  };
+
+  // Просроченный токен забываем: дальше он ничем не отличается от чужого
+  const findAccount = (token: string) => {
+    const account = accounts.get(token);
+    if (account && account.expiresAt <= Date.now()) {
+      accounts.delete(token);
+      return null;
+    }
+    return account ?? null;
+  };
+
+  const resolveAccount = (token: string) => {
+    const account = findAccount(token);
+    if (!account) throw new TransportError('Unauthorized', 401);
+    return account;
+  };
+
+  // Нужна небольшая задержка, чтобы UI видел те же состояния загрузки, что и с сетью
+  const respond = <T>(producer: () => T) =>
+    new Promise<T>((resolve, reject) => {
+      setTimeout(() => {
+        try {
+          resolve(producer());
+        } catch (error) {
+          reject(error);
+        }
+      }, latencyMs);
+    });
+
+  const isNicknameTaken = (nickname: string, playerId: string | undefined) => {
+    const lowered = nickname.toLowerCase();
+    for (const account of accounts.values()) {
+      if (account.playerId === playerId || account.nickname.toLowerCase() !== lowered) continue;
+      for (const lobby of lobbies.values()) {
+        if (lobby.hasPlayer(account.playerId)) return true;
+      }
+    }
+    return false;
+  };
+
+  const createLobby = (mode: GameModeKey) => {
+    const name = offline ? 'Offline practice' : `Local ${lobbies.size + 1}`;
+    const lobby = new LoopbackLobby(nextId('lobby'), name, mode, Math.floor(rng() * 0xffffffff));
+    lobbies.set(lobby.id, lobby);
+    for (const difficulty of botLineup) lobby.addBot(difficulty);
+    return lobby;
+  };
+
+  return {
+    kind: offline ? 'offline' : 'loopback',
+
+    authenticate({ nickname, playerId }: AuthRequest) {
+      return respond<AuthResult>(() => {
+        if (isNicknameTaken(nickname, playerId)) {
+          throw new TransportError('Nickname already in use.', 409);
+        }
+        const account = { playerId: playerId ?? nextId('player'), nickname, expiresAt: Date.now() + tokenTtlMs };
+        const token = nextId('token');
+        accounts.set(token, account);
+        return { token, playerId: account.playerId, nickname, expiresAt: account.expiresAt };
+      });
+    },
+
+    findBestLobby(mode: GameModeKey, token: string) {
+      return respond(() => {
+        resolveAccount(token);
+        if (offline) return { lobbyId: createLobby(mode).id };
+        const candidates = Array.from(lobbies.values())
+          .filter((lobby) => lobby.mode === mode && lobby.playerCount < lobby.maxPlayers)
+          .sort((a, b) => b.playerCount - a.playerCount);
+        const lobby = candidates[0] ?? createLobby(mode);
+        return { lobbyId: lobby.id };
+      });
+    },
+
+    joinLobby(lobbyId: string, token: string) {
+      return respond<JoinedLobby>(() => {
+        const account = resolveAccount(token);
+        const lobby = lobbies.get(lobbyId);
+        if (!lobby) throw new TransportError('Lobby not found.', 404);
+        if (lobby.playerCount >= lobby.maxPlayers && !lobby.hasPlayer(account.playerId)) {
+          throw new TransportError('Lobby is full.', 409);
+        }
+        return { lobbyId: lobby.id, mode: lobby.mode, name: lobby.name };
+      });
+    },
+
+    async leaveLobby(lobbyId: string, token: string) {
+      const account = findAccount(token);
+      const lobby = lobbies.get(lobbyId);
+      if (!account || !lobby) return;
+      lobby.leave(account.playerId);
+      // Приватное лобби после выхода никому не нужно
+      if (offline && !lobby.connectedCount) {
+        lobby.dispose();
+        lobbies.delete(lobbyId);
+      }
+    },
+
+    listLobbies(mode: GameModeKey, token: string) {
+      return respond(() => {
+        resolveAccount(token);
+        if (offline) return [];
+        return Array.from(lobbies.values())
+          .filter((lobby) => lobby.mode === mode)
+          .map((lobby) => lobby.summary());
+      });
+    },
+
+    openLobbySocket({ lobbyId, token, nickname, protocols, role }: LobbySocketParams) {
+      const socket = new LoopbackSocket(protocols, latencyMs);
+      const account = findAccount(token);
+      const lobby = lobbies.get(lobbyId);
+      if (!account) {
+        socket.reject(4001, 'Unauthorized');
+        return socket;
+      }
+      if (!lobby) {
+        socket.reject(1008, 'Lobby not found');
+        return socket;
+      }
+      if (role === 'spectator') lobby.watch(socket, account.playerId);
+      else lobby.connect(socket, account.playerId, nickname || account.nickname);
+      return socket;
+    },
+
+    setBotLineup(lineup: BotDifficulty[]) {
+      botLineup = [...lineup];
+    },
+
+    dispose() {
+      for (const lobby of lobbies.values()) lobby.dispose();
+      lobbies.clear();
+      accounts.clear();
+    },
+  };
+};
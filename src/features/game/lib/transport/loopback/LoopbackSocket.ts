@@ -0,0 +1,111 @@
+// src/features/game/lib/transport/loopback/LoopbackSocket.ts
+// WebSocket в памяти. Оба направления доставляются асинхронно (с задержкой по желанию),
+// чтобы порядок событий был как у настоящего сокета
+
+import { SOCKET_STATE, type GameSocket } from '@/features/game/lib/transport/types';
+
+export interface LoopbackPeer {
+  onClientMessage: (data: string | ArrayBuffer) => void;
+  onClientClose: (code: number, reason: string) => void;
+}
+
+interface CloseListener {
+  listener: () => void;
+  once: boolean;
+}
+
+export class LoopbackSocket implements GameSocket {
+  readyState: number = SOCKET_STATE.CONNECTING;
+  protocol = '';
+  binaryType: BinaryType = 'blob';
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  readonly offeredProtocols: string[];
+  private readonly latencyMs: number;
+  private peer: LoopbackPeer | null = null;
+  private closeListeners: CloseListener[] = [];
+
+  constructor(offeredProtocols: string[], latencyMs: number) {
+    this.offeredProtocols = offeredProtocols;
+    this.latencyMs = latencyMs;
+  }
+
+  private defer(callback: () => void) {
+    setTimeout(callback, this.latencyMs);
+  }
+
+  // Сервер: завершает рукопожатие с выбранным сабпротоколом
+  accept(peer: LoopbackPeer, protocol: string) {
+    this.defer(() => {
+      if (this.readyState !== SOCKET_STATE.CONNECTING) return;
+      this.peer = peer;
+      this.protocol = protocol;
+      this.readyState = SOCKET_STATE.OPEN;
+      this.onopen?.({ type: 'open' } as Event);
+    });
+  }
+
+  // Сервер: отклоняет рукопожатие так, как браузер сообщает о неудачном upgrade
+  reject(code = 1006, reason = '') {
+    this.defer(() => {
+      if (this.readyState === SOCKET_STATE.CLOSED) return;
+      this.onerror?.({ type: 'error' } as Event);
+      this.finishClose(code, reason, false);
+    });
+  }
+
+  // Сервер: кадр клиенту; отправленные сразу после accept приходят после onopen
+  deliver(data: string | ArrayBuffer) {
+    if (this.readyState === SOCKET_STATE.CLOSING || this.readyState === SOCKET_STATE.CLOSED) return;
+    this.defer(() => {
+      if (this.readyState !== SOCKET_STATE.OPEN) return;
+      this.onmessage?.({ type: 'message', data } as MessageEvent);
+    });
+  }
+
+  // Сервер: закрывает соединение с кодом
+  terminate(code: number, reason = '') {
+    if (this.readyState === SOCKET_STATE.CLOSED) return;
+    this.readyState = SOCKET_STATE.CLOSING;
+    this.peer = null;
+    this.defer(() => this.finishClose(code, reason, code !== 1006));
+  }
+
+  send(data: string | ArrayBuffer) {
+    if (this.readyState === SOCKET_STATE.CONNECTING) {
+      throw new Error("Failed to execute 'send' on 'WebSocket': Still in CONNECTING state.");
+    }
+    if (this.readyState !== SOCKET_STATE.OPEN) return;
+    const peer = this.peer;
+    this.defer(() => peer?.onClientMessage(data));
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.readyState === SOCKET_STATE.CLOSING || this.readyState === SOCKET_STATE.CLOSED) return;
+    const peer = this.peer;
+    this.peer = null;
+    this.readyState = SOCKET_STATE.CLOSING;
+    this.defer(() => {
+      peer?.onClientClose(code, reason);
+      this.finishClose(code, reason, true);
+    });
+  }
+
+  addEventListener(type: 'close', listener: () => void, options?: { once?: boolean }) {
+    if (type !== 'close') return;
+    this.closeListeners.push({ listener, once: Boolean(options?.once) });
+  }
+
+  private finishClose(code: number, reason: string, wasClean: boolean) {
+    if (this.readyState === SOCKET_STATE.CLOSED) return;
+    this.readyState = SOCKET_STATE.CLOSED;
+    this.peer = null;
+    this.onclose?.({ type: 'close', code, reason, wasClean } as CloseEvent);
+    const listeners = this.closeListeners;
+    this.closeListeners = listeners.filter((entry) => !entry.once);
+    for (const entry of listeners) entry.listener();
+  }
+}
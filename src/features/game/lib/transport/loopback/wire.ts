@@ -0,0 +1,154 @@
+// src/features/game/lib/transport/loopback/wire.ts
+// Серверная сторона: кодирует сообщения в JSON с короткими ключами, который читает
+// parseServerMessage. Нужна только серверам внутри процесса
+
+import type {
+  DeathCause,
+  DeathCauseKind,
+  HotGameState,
+  HotStateDelta,
+  PlayerInfo,
+  PowerUpType,
+  ServerMessage,
+  SlotAssignment,
+} from '@/features/game/types';
+
+const POWERUP_CODES: PowerUpType[] = ['SpeedBoost', 'ScoreBoost', 'Projectile', 'Ghost', 'Reverse', 'Swap'];
+const BLOCK_CODES = ['warning', 'kill', 'solid'] as const;
+const DEATH_CAUSE_CODES: DeathCauseKind[] = ['snake', 'self', 'projectile', 'block', 'wall', 'arena_shrink'];
+
+const flatten = (cells: { x: number; y: number }[]) => {
+  const result: number[] = [];
+  for (const cell of cells) result.push(cell.x, cell.y);
+  return result;
+};
+
+export const toWireState = (state: HotGameState): Record<string, unknown> => {
+  const wire: Record<string, unknown> = {
+    t: state.tick,
+    g: state.gridSize,
+    m: state.mode,
+    s: state.snakes.map((snake) => ({ i: snake.id, b: flatten(snake.body) })),
+    f: flatten(state.food),
+    p: state.powerUps.map((powerUp) => ({
+      i: powerUp.id,
+      t: POWERUP_CODES.indexOf(powerUp.type),
+      p: [powerUp.position.x, powerUp.position.y],
+    })),
+    j: state.projectiles.map((projectile) => ({
+      i: projectile.id,
+      o: projectile.ownerId,
+      p: [projectile.position.x, projectile.position.y],
+      d: projectile.direction[0],
+    })),
+  };
+  if (state.blocks?.length) {
+    wire.b = state.blocks.map((block) => ({
+      p: [block.x, block.y],
+      s: BLOCK_CODES.indexOf(block.state),
+      a: block.activateAt,
+      e: block.expireAt,
+    }));
+  }
+  if (state.pendingResize) {
+    const resize = state.pendingResize;
+    wire.r = { f: resize.from, t: resize.to, a: resize.announcedAt, w: resize.warnMs, k: resize.killMs };
+  }
+  if (state.teams?.length) {
+    wire.tm = state.teams.map((team) => ({ i: team.id, n: team.displayName, s: team.score, p: team.playerIds }));
+  }
+  if (state.gameOver) {
+    wire.o = state.gameOver;
+  }
+  return wire;
+};
+
+export const toWireDelta = (delta: HotStateDelta): Record<string, unknown> => {
+  // Переиспользуем кодирование полного состояния для вложенных списков
+  const lists = toWireState({
+    tick: delta.tick,
+    gridSize: delta.gridSize ?? 0,
+    mode: 'free_for_all',
+    snakes: delta.addedSnakes,
+    food: [],
+    powerUps: delta.powerUps ?? [],
+    projectiles: delta.projectiles ?? [],
+    blocks: delta.blocksChanged,
+    pendingResize: delta.pendingResize ?? undefined,
+    teams: delta.teams ?? undefined,
+  });
+  const wire: Record<string, unknown> = {
+    bt: delta.baseTick,
+    t: delta.tick,
+    s: delta.snakes.map((snake) => ({ i: snake.id, h: flatten(snake.push), p: snake.pop })),
+    sa: lists.s,
+    sr: delta.removedSnakes,
+    fa: flatten(delta.foodAdded),
+    fr: flatten(delta.foodRemoved),
+    ba: lists.b ?? [],
+    br: flatten(delta.blocksRemoved),
+  };
+  if (delta.gridSize !== undefined) wire.g = delta.gridSize;
+  if (delta.powerUps) wire.p = lists.p;
+  if (delta.projectiles) wire.j = lists.j;
+  if (delta.pendingResize !== undefined) wire.r = delta.pendingResize === null ? null : lists.r;
+  if (delta.teams !== undefined) wire.tm = delta.teams === null ? null : lists.tm ?? [];
+  if (delta.gameOver !== undefined) wire.o = delta.gameOver;
+  return wire;
+};
+
+export const toWirePlayer = (player: PlayerInfo) => ({
+  nickname: player.nickname,
+  score: player.score,
+  powerUpSlots: player.powerUpSlots.map((slot) => (slot ? POWERUP_CODES.indexOf(slot) : null)),
+  teamId: player.teamId,
+  activeEffects: { ...player.activeEffects },
+});
+
+export const toWirePlayerList = (players: Record<string, PlayerInfo>, slotAssignments: SlotAssignment[]) => ({
+  players: Object.fromEntries(Object.entries(players).map(([id, player]) => [id, toWirePlayer(player)])),
+  slotAssignments,
+});
+
+export const toWireDeathCause = (cause: DeathCause): Record<string, unknown> => {
+  const wire: Record<string, unknown> = { k: DEATH_CAUSE_CODES.indexOf(cause.kind) };
+  if (cause.killerId !== undefined) wire.by = cause.killerId;
+  return wire;
+};
+
+// Сериализует любое сообщение сервера; state сокращается, остальное уходит как есть
+export const encodeWireMessage = (message: ServerMessage): string => {
+  switch (message.type) {
+    case 'state':
+      return JSON.stringify({ type: 'state', payload: toWireState(message.payload) });
+    case 'state_delta':
+      return JSON.stringify({ type: 'state_delta', payload: toWireDelta(message.payload) });
+    case 'player_list':
+      return JSON.stringify({
+        type: 'player_list',
+        payload: toWirePlayerList(message.payload.players, message.payload.slotAssignments),
+      });
+    case 'sync':
+      return JSON.stringify({
+        type: 'sync',
+        payload: {
+          ...toWirePlayerList(message.payload.players, message.payload.slotAssignments),
+          state: toWireState(message.payload.state),
+        },
+      });
+    case 'player_joined':
+      return JSON.stringify({
+        type: 'player_joined',
+        payload: { ...message.payload, player: toWirePlayer(message.payload.player) },
+      });
+    case 'player_died': {
+      const { playerId, cause } = message.payload;
+      return JSON.stringify({
+        type: 'player_died',
+        payload: cause ? { playerId, c: toWireDeathCause(cause) } : { playerId },
+      });
+    }
+    default:
+      return JSON.stringify(message);
+  }
+};
@@ -0,0 +1,68 @@
+// src/features/game/lib/transport/socketAuth.ts
+// Как сокет лобби представляется серверу. Токен в URL оседает в логах прокси и истории,
+// поэтому сначала сабпротокол, потом первый кадр auth, и ?token= — только если разрешён
+
+import { SOCKET_AUTH } from '@/features/game/config';
+
+export type SocketAuthMethod = 'protocol' | 'message' | 'query';
+
+const SOCKET_AUTH_METHODS: readonly SocketAuthMethod[] = ['protocol', 'message', 'query'];
+
+export const isSocketAuthMethod = (value: unknown): value is SocketAuthMethod =>
+  typeof value === 'string' && (SOCKET_AUTH_METHODS as readonly string[]).includes(value);
+
+// В подпротоколе допустимы не все символы — кодируем токен в base64url
+const toBase64Url = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+// Сабпротокол с токеном; предлагается после форматов, сервер его не выбирает
+export const authProtocol = (token: string) => `${SOCKET_AUTH.protocolPrefix}${toBase64Url(token)}`;
+
+// Первый кадр для метода message; сервер отвечает потоком лобби или закрывает с 4001
+export const authFrame = (token: string) => JSON.stringify({ action: 'auth', token });
+
+// Подбирает метод, который понимает сервер: объявленные сервером важнее,
+// иначе пробуем первый, ещё не отвергнутый неудачным рукопожатием
+export class SocketAuthNegotiator {
+  private readonly candidates: SocketAuthMethod[];
+  private advertised: SocketAuthMethod[] | null = null;
+  private ruledOut = new Set<SocketAuthMethod>();
+  // Метод, на который сервер уже ответил: его обрывы — сеть, а не отказ
+  private confirmed: SocketAuthMethod | null = null;
+
+  constructor({ allowQuery = false }: { allowQuery?: boolean } = {}) {
+    this.candidates = allowQuery ? [...SOCKET_AUTH_METHODS] : SOCKET_AUTH_METHODS.filter((m) => m !== 'query');
+  }
+
+  // Что /auth сказал про методы сокета; у старых серверов поля нет
+  advertise(methods: SocketAuthMethod[] | undefined) {
+    if (!methods?.length) return;
+    this.advertised = methods;
+    this.ruledOut.clear();
+    this.confirmed = null;
+  }
+
+  // null, если сервер принимает только запрещённые этому клиенту методы
+  pick(): SocketAuthMethod | null {
+    if (this.advertised) {
+      return this.candidates.find((method) => this.advertised?.includes(method)) ?? null;
+    }
+    if (this.confirmed) return this.confirmed;
+    // Перебрали всё — скорее всего, лежала сеть, а не сервер нас не понял: начинаем заново
+    if (this.candidates.every((method) => this.ruledOut.has(method))) this.ruledOut.clear();
+    return this.candidates.find((method) => !this.ruledOut.has(method)) ?? null;
+  }
+
+  // Сервер ответил на сокет с этим методом
+  confirm(method: SocketAuthMethod) {
+    this.confirmed = method;
+  }
+
+  // Сокет закрылся до первого сообщения; без объявления от сервера пробуем следующий метод
+  reject(method: SocketAuthMethod) {
+    if (!this.advertised && method !== this.confirmed) this.ruledOut.add(method);
+  }
+}
@@ -0,0 +1,83 @@
+// src/features/game/lib/transport/types.ts
+// Всё, что клиенту нужно от бэкенда: вызовы авторизации и лобби плюс сокет лобби.
+// Реализуют настоящая сеть и loopback в памяти
+
+import type { SocketAuthMethod } from '@/features/game/lib/transport/socketAuth';
+import type { GameModeKey, LobbySummary } from '@/features/game/types';
+
+// Те же числа, что у WebSocket.readyState, но без зависимости от глобального WebSocket
+export const SOCKET_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const;
+
+// Часть браузерного WebSocket, на которую опирается клиент
+export interface GameSocket {
+  readonly readyState: number;
+  readonly protocol: string;
+  binaryType: BinaryType;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string | ArrayBuffer): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'close', listener: () => void, options?: { once?: boolean }): void;
+}
+
+export class TransportError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'TransportError';
+    this.status = status;
+  }
+}
+
+export interface AuthRequest {
+  nickname: string;
+  playerId?: string;
+  token?: string | null;
+}
+
+export interface AuthResult {
+  token: string;
+  playerId: string;
+  nickname?: string;
+  // Epoch мс, после которых токен отвергнут; null или нет поля, если сервер не сообщил
+  expiresAt?: number | null;
+  // Как сокет лобби принимает этот токен, по словам сервера
+  socketAuth?: SocketAuthMethod[];
+}
+
+export interface JoinedLobby {
+  lobbyId: string;
+  mode: GameModeKey;
+  name: string | null;
+}
+
+export interface LobbySocketParams {
+  lobbyId: string;
+  token: string;
+  nickname: string;
+  mode: GameModeKey;
+  // Сабпротоколы для сервера в порядке предпочтения
+  protocols: string[];
+  // Наблюдатель не занимает слот, его вводы игнорируются; по умолчанию player
+  role?: 'player' | 'spectator';
+}
+
+export interface GameTransport {
+  readonly kind: 'http' | 'loopback' | 'offline';
+  // Если ник занят — TransportError со статусом 409
+  authenticate(request: AuthRequest): Promise<AuthResult>;
+  findBestLobby(mode: GameModeKey, token: string): Promise<{ lobbyId: string }>;
+  joinLobby(lobbyId: string, token: string): Promise<JoinedLobby>;
+  // По возможности; никогда не отклоняется
+  leaveLobby(lobbyId: string, token: string): Promise<void>;
+  listLobbies(mode: GameModeKey, token: string): Promise<LobbySummary[]>;
+  openLobbySocket(params: LobbySocketParams): GameSocket;
+}
@@ -94,6 +94,32 @@ export interface HotGameState extends Omit<GameState, 'players' | 'snakes' | 'pr
   projectiles: HotProjectileState[];
 }
 
+export interface HotSnakeDelta {
+  id: number;
+  // Клетки, добавленные к голове, по порядку (последняя — новая голова)
+  push: { x: number; y: number }[];
+  // Сколько клеток снято с хвоста
+  pop: number;
+}
+
+export interface HotStateDelta {
+  baseTick: number;
+  tick: number;
+  gridSize?: number;
+  snakes: HotSnakeDelta[];
+  addedSnakes: HotSnake[];
+  removedSnakes: number[];
+  foodAdded: { x: number; y: number }[];
+  foodRemoved: { x: number; y: number }[];
+  blocksChanged: BlockCell[];
+  blocksRemoved: { x: number; y: number }[];
+  powerUps?: PowerUp[];
+  projectiles?: HotProjectileState[];
+  pendingResize?: PendingResize | null;
+  teams?: TeamState[] | null;
+  gameOver?: GameOverInfo | null;
+}
+
 export interface SlotAssignment {
   slotId: number;
   playerId: string;
@@ -104,6 +130,11 @@ export interface PlayerListPayload {
   slotAssignments: SlotAssignment[];
 }
 
+// Ответ на request_sync: всё, что отслеживает клиент, на одном тике сервера
+export interface SyncPayload extends PlayerListPayload {
+  state: HotGameState;
+}
+
 export interface ScoreUpdatePayload {
   playerId: string;
   score: number;
@@ -126,6 +157,34 @@ export interface PlayerLeftPayload {
   slotId: number;
 }
 
+// --- Deaths ---
+// Причина смерти: snake — врезалась в другую змейку (и лоб в лоб), self — в себя,
+// wall — за край поля, block — в смертельную зону или стену
+export type DeathCauseKind = 'snake' | 'self' | 'projectile' | 'block' | 'wall' | 'arena_shrink';
+
+export interface DeathCause {
+  kind: DeathCauseKind;
+  // Хозяин змейки или снаряда; только для snake и projectile
+  killerId?: string;
+}
+
+export interface PlayerDiedPayload {
+  playerId: string;
+  // Нет, если сервер не прислал или прислал непонятную; тогда выводится из последнего состояния
+  cause?: DeathCause;
+}
+
+export interface PongPayload {
+  id: number;
+  serverTime: number | null;
+}
+
+export interface InputAckPayload {
+  seq: number;
+  // Тик, на котором сервер применил ввод; null, если отбросил
+  tick: number | null;
+}
+
 export interface LobbySummary {
   id: string;
   name: string;
@@ -142,17 +201,32 @@ export type ClientMessage =
   | { action: 'turn'; direction: 'up' | 'down' | 'left' | 'right' }
   | { action: 'use_powerup'; slot: number }
   | { action: 'switch_team'; teamId: TeamId }
+  | { action: 'request_keyframe'; sinceTick: number | null }
+  | { action: 'request_sync' }
+  | { action: 'ping'; id: number }
   | { action: 'leave' };
 
+// Добавляется к каждому исходящему: порядок отправки и тик, для которого предназначен ввод
+export interface InputEnvelope {
+  seq: number;
+  tick: number | null;
+}
+
+export type SequencedClientMessage = ClientMessage & InputEnvelope;
+
 // Сервер (добавляем 'team_switched' и 'team_switch_denied')
 export type ServerMessage =
   | { type: 'state'; payload: HotGameState }
+  | { type: 'state_delta'; payload: HotStateDelta }
   | { type: 'player_list'; payload: PlayerListPayload }
+  | { type: 'sync'; payload: SyncPayload }
   | { type: 'score_update'; payload: ScoreUpdatePayload }
   | { type: 'powerup_update'; payload: PowerUpUpdatePayload }
   | { type: 'player_joined'; payload: PlayerJoinedPayload }
   | { type: 'player_left'; payload: PlayerLeftPayload }
-  | { type: 'player_died'; payload: { playerId: string } }
+  | { type: 'player_died'; payload: PlayerDiedPayload }
   | { type: 'game_over'; payload: GameOverInfo }
   | { type: 'team_switched'; payload: { playerId: string; teamId: TeamId } }
-  | { type: 'team_switch_denied'; payload: { reason: string } };
+  | { type: 'team_switch_denied'; payload: { reason: string } }
+  | { type: 'pong'; payload: PongPayload }
+  | { type: 'input_ack'; payload: InputAckPayload };